@@ -8,8 +8,14 @@
 /* eslint-disable @typescript-eslint/ban-types */
 
 type ExtensionPreferences = {
-  /** Audio Folder - The folder containing your audio files (subfolders become categories). */
-  "audioFolder": string,
+  /** Audio Folder - The main folder containing your audio files (subfolders become categories). */
+  "audioFolder"?: string,
+  /** Audio Folder Label - Label for the main audio folder in the category dropdown. Default: the folder name */
+  "audioFolderLabel"?: string,
+  /** Additional Library Roots - More library folders as Label=/path entries separated by semicolons, e.g. Music Beds=/Volumes/Media/Music; Client X=~/Projects/ClientX/Audio */
+  "additionalRoots"?: string,
+  /** Playback Backend - Command-line player used for previews. Auto picks the first one installed that can play the file. */
+  "playerBackend": "auto" | "afplay" | "pw-play" | "paplay" | "mpv" | "ffplay",
   /** After Effects Binary - Full path to the AE executable (used with -r). Default: /Applications/Adobe After Effects 2025/Adobe After Effects 2025.app/Contents/MacOS/After Effects */
   "aeBinaryPath"?: string
 }
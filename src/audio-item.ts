@@ -0,0 +1,83 @@
+import path from "path";
+import { AudioMetadata } from "./audio-metadata";
+import { FileAnalysis } from "./library-index";
+
+export interface AudioItem {
+  path: string;
+  name: string;
+  root: string; // id of the library root the file lives in
+  category: string; // derived from subfolder path relative to root
+  size: number;
+  mtimeMs: number;
+  metadata?: AudioMetadata; // filled in asynchronously after the scan
+  analysis?: FileAnalysis; // loudness etc., filled in after the metadata
+}
+
+// Files directly in a library root use this category instead of ""
+export const ROOT_CATEGORY = "Root";
+
+/**
+ * Derive the top-level category name from a relative subfolder path
+ */
+export function topLevelCategoryName(category: string): string {
+  if (!category || category === ROOT_CATEGORY) return ROOT_CATEGORY;
+  const idx = category.indexOf(path.sep);
+  return idx === -1 ? category : category.slice(0, idx);
+}
+
+/**
+ * Whether an item lives in `folder` (a category path; "" means the root).
+ * With `includeSubfolders` items in any nested folder match as well.
+ */
+export function isInFolder(
+  item: AudioItem,
+  folder: string,
+  includeSubfolders: boolean
+): boolean {
+  const category = item.category === ROOT_CATEGORY ? "" : item.category;
+  if (category === folder) return true;
+  if (!includeSubfolders) return false;
+  return folder === "" || category.startsWith(folder + path.sep);
+}
+
+/**
+ * The immediate subfolders of `folder` within one root, with the number of
+ * files anywhere below each of them.
+ */
+export function childFolders(
+  items: AudioItem[],
+  rootId: string,
+  folder: string
+): { name: string; path: string; fileCount: number }[] {
+  const counts = new Map<string, number>();
+  const prefix = folder === "" ? "" : folder + path.sep;
+  for (const item of items) {
+    if (item.root !== rootId || item.category === ROOT_CATEGORY) continue;
+    if (!item.category.startsWith(prefix) || item.category === folder) continue;
+    const rest = item.category.slice(prefix.length);
+    const name = rest.split(path.sep)[0];
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([name, fileCount]) => ({
+      name,
+      path: prefix + name,
+      fileCount,
+    }));
+}
+
+/**
+ * Every folder (at any depth) that contains audio, per item category.
+ */
+export function allFolderPaths(items: AudioItem[]): string[] {
+  const folders = new Set<string>();
+  for (const item of items) {
+    if (item.category === ROOT_CATEGORY) continue;
+    const parts = item.category.split(path.sep);
+    for (let i = 1; i <= parts.length; i++) {
+      folders.add(parts.slice(0, i).join(path.sep));
+    }
+  }
+  return [...folders];
+}
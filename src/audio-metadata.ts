@@ -0,0 +1,925 @@
+import fs from "fs";
+import path from "path";
+
+// Header parsers for the audio formats the browser lists. Everything here reads
+// only the bytes it needs, so it is cheap enough to run over a whole library.
+
+export interface AudioMetadata {
+  format: string; // container, e.g. "WAV", "AIFF", "MP3"
+  codec?: string; // e.g. "PCM", "AAC", "Opus"
+  durationSec?: number;
+  sampleRate?: number;
+  channels?: number;
+  bitDepth?: number; // only for lossless / PCM data
+  bitrate?: number; // bits per second, when known
+}
+
+/**
+ * Where the raw sample data of an uncompressed WAV/AIFF file lives. Used by the
+ * native PCM decoder so it does not have to walk the chunks a second time.
+ */
+export interface PcmLayout {
+  offset: number;
+  length: number;
+  sampleRate: number;
+  channels: number;
+  bitDepth: number;
+  encoding: "int" | "float";
+  bigEndian: boolean;
+}
+
+interface ParseResult {
+  metadata: AudioMetadata;
+  layout?: PcmLayout;
+}
+
+const HEAD_BYTES = 64 * 1024;
+const MAX_SCAN_BYTES = 4 * 1024 * 1024;
+
+class FileReader {
+  constructor(private handle: fs.promises.FileHandle, readonly size: number) {}
+
+  async read(position: number, length: number): Promise<Buffer> {
+    const len = Math.max(0, Math.min(length, this.size - position));
+    const buf = Buffer.alloc(len);
+    if (len === 0) return buf;
+    const { bytesRead } = await this.handle.read(buf, 0, len, position);
+    return bytesRead === len ? buf : buf.subarray(0, bytesRead);
+  }
+}
+
+/**
+ * Read duration, sample rate, channel count and bit depth from the file header.
+ * Returns null for unknown or unreadable files.
+ */
+export async function readAudioMetadata(
+  filePath: string
+): Promise<AudioMetadata | null> {
+  const result = await parseFile(filePath);
+  return result ? result.metadata : null;
+}
+
+/**
+ * Locate the PCM sample data of an uncompressed WAV/RF64/AIFF/AIFC file.
+ */
+export async function readPcmLayout(
+  filePath: string
+): Promise<PcmLayout | null> {
+  const result = await parseFile(filePath);
+  return result?.layout ?? null;
+}
+
+async function parseFile(filePath: string): Promise<ParseResult | null> {
+  let handle: fs.promises.FileHandle | null = null;
+  try {
+    handle = await fs.promises.open(filePath, "r");
+    const { size } = await handle.stat();
+    const reader = new FileReader(handle, size);
+    const head = await reader.read(0, HEAD_BYTES);
+    const ext = path.extname(filePath).toLowerCase();
+    return await parseByMagic(reader, head, ext);
+  } catch (e) {
+    console.error("Failed to read audio metadata", filePath, e);
+    return null;
+  } finally {
+    try {
+      await handle?.close();
+    } catch {
+      // ignore
+    }
+  }
+}
+
+async function parseByMagic(
+  reader: FileReader,
+  head: Buffer,
+  ext: string
+): Promise<ParseResult | null> {
+  const magic = head.toString("latin1", 0, 4);
+  if (magic === "RIFF" || magic === "RF64" || magic === "BW64") {
+    return parseWav(reader, head);
+  }
+  if (magic === "FORM") return parseAiff(reader);
+  if (magic === "caff") return parseCaf(reader);
+  if (magic === "OggS") return parseOgg(reader, head);
+
+  // FLAC and MP3 may both start with an ID3v2 tag
+  const start = id3v2Length(head);
+  const afterTag =
+    start > 0 && start < head.length ? head.subarray(start) : head;
+  if (afterTag.toString("latin1", 0, 4) === "fLaC") {
+    return parseFlac(reader, start);
+  }
+  if (head.toString("latin1", 4, 8) === "ftyp") return parseMp4(reader);
+  if (isAdtsHeader(afterTag, 0) || (ext === ".aac" && start > 0)) {
+    const adts = await parseAdts(reader, start);
+    if (adts) return adts;
+  }
+  if (ext === ".m4a") return parseMp4(reader);
+  return parseMp3(reader, start);
+}
+
+function id3v2Length(buf: Buffer): number {
+  if (buf.length < 10 || buf.toString("latin1", 0, 3) !== "ID3") return 0;
+  const size =
+    ((buf[6] & 0x7f) << 21) |
+    ((buf[7] & 0x7f) << 14) |
+    ((buf[8] & 0x7f) << 7) |
+    (buf[9] & 0x7f);
+  const footer = buf[5] & 0x10 ? 10 : 0;
+  return 10 + size + footer;
+}
+
+// --- WAV / RF64 / BW64 -----------------------------------------------------
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const WAV_CODECS: Record<number, string> = {
+  0x0001: "PCM",
+  0x0002: "ADPCM",
+  0x0003: "Float",
+  0x0006: "A-law",
+  0x0007: "µ-law",
+  0x0011: "IMA ADPCM",
+  0x0055: "MP3",
+};
+
+async function parseWav(
+  reader: FileReader,
+  head: Buffer
+): Promise<ParseResult | null> {
+  if (head.toString("latin1", 8, 12) !== "WAVE") return null;
+  const isRf64 = head.toString("latin1", 0, 4) !== "RIFF";
+  let ds64DataSize: number | null = null;
+  let formatTag = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let byteRate = 0;
+  let bitDepth = 0;
+  let factSamples: number | null = null;
+  let dataOffset = -1;
+  let dataSize = 0;
+
+  let pos = 12;
+  while (pos + 8 <= reader.size) {
+    const header = await reader.read(pos, 8);
+    if (header.length < 8) break;
+    const id = header.toString("latin1", 0, 4);
+    let size = header.readUInt32LE(4);
+    const body = pos + 8;
+
+    if (id === "ds64") {
+      const ds = await reader.read(body, 24);
+      if (ds.length >= 24) ds64DataSize = Number(ds.readBigUInt64LE(8));
+    } else if (id === "fmt ") {
+      const fmt = await reader.read(body, Math.min(size, 40));
+      if (fmt.length < 16) return null;
+      formatTag = fmt.readUInt16LE(0);
+      channels = fmt.readUInt16LE(2);
+      sampleRate = fmt.readUInt32LE(4);
+      byteRate = fmt.readUInt32LE(8);
+      bitDepth = fmt.readUInt16LE(14);
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && fmt.length >= 26) {
+        // The real format tag is the first two bytes of the SubFormat GUID
+        formatTag = fmt.readUInt16LE(24);
+      }
+    } else if (id === "fact") {
+      const fact = await reader.read(body, 4);
+      if (fact.length === 4) factSamples = fact.readUInt32LE(0);
+    } else if (id === "data") {
+      if (isRf64 && size === 0xffffffff && ds64DataSize !== null) {
+        size = ds64DataSize;
+      }
+      dataOffset = body;
+      // Files still being written (or truncated) claim more than they hold
+      dataSize = Math.min(size, reader.size - body);
+      if (formatTag !== 0) break;
+    }
+    pos = body + size + (size % 2);
+  }
+
+  if (!sampleRate || !channels) return null;
+  const codec = WAV_CODECS[formatTag] ?? `0x${formatTag.toString(16)}`;
+  const isPcm =
+    formatTag === WAVE_FORMAT_PCM || formatTag === WAVE_FORMAT_IEEE_FLOAT;
+
+  let durationSec: number | undefined;
+  if (factSamples !== null && !isPcm) {
+    durationSec = factSamples / sampleRate;
+  } else if (byteRate > 0 && dataOffset >= 0) {
+    durationSec = dataSize / byteRate;
+  }
+
+  const metadata: AudioMetadata = {
+    format: isRf64 ? "RF64" : "WAV",
+    codec,
+    durationSec,
+    sampleRate,
+    channels,
+    bitDepth: isPcm ? bitDepth : undefined,
+    bitrate: byteRate ? byteRate * 8 : undefined,
+  };
+  const layout: PcmLayout | undefined =
+    isPcm && dataOffset >= 0
+      ? {
+          offset: dataOffset,
+          length: dataSize,
+          sampleRate,
+          channels,
+          bitDepth,
+          encoding: formatTag === WAVE_FORMAT_IEEE_FLOAT ? "float" : "int",
+          bigEndian: false,
+        }
+      : undefined;
+  return { metadata, layout };
+}
+
+// --- AIFF / AIFC -----------------------------------------------------------
+
+function readExtended80(buf: Buffer, offset: number): number {
+  const exponent = buf.readUInt16BE(offset) & 0x7fff;
+  const sign = buf[offset] & 0x80 ? -1 : 1;
+  const hi = buf.readUInt32BE(offset + 2);
+  const lo = buf.readUInt32BE(offset + 6);
+  if (exponent === 0 && hi === 0 && lo === 0) return 0;
+  const mantissa = hi * 2 ** 32 + lo;
+  return sign * mantissa * 2 ** (exponent - 16383 - 63);
+}
+
+const AIFC_CODECS: Record<string, string> = {
+  NONE: "PCM",
+  twos: "PCM",
+  sowt: "PCM",
+  fl32: "Float",
+  FL32: "Float",
+  fl64: "Float",
+  FL64: "Float",
+  alaw: "A-law",
+  ulaw: "µ-law",
+  ima4: "IMA ADPCM",
+};
+
+async function parseAiff(reader: FileReader): Promise<ParseResult | null> {
+  const form = await reader.read(0, 12);
+  const type = form.toString("latin1", 8, 12);
+  if (type !== "AIFF" && type !== "AIFC") return null;
+
+  let channels = 0;
+  let frames = 0;
+  let bitDepth = 0;
+  let sampleRate = 0;
+  let compression = "NONE";
+  let dataOffset = -1;
+  let dataSize = 0;
+
+  let pos = 12;
+  while (pos + 8 <= reader.size) {
+    const header = await reader.read(pos, 8);
+    if (header.length < 8) break;
+    const id = header.toString("latin1", 0, 4);
+    const size = header.readUInt32BE(4);
+    const body = pos + 8;
+
+    if (id === "COMM") {
+      const comm = await reader.read(body, Math.min(size, 26));
+      if (comm.length < 18) return null;
+      channels = comm.readUInt16BE(0);
+      frames = comm.readUInt32BE(2);
+      bitDepth = comm.readUInt16BE(6);
+      sampleRate = readExtended80(comm, 8);
+      if (type === "AIFC" && comm.length >= 22) {
+        compression = comm.toString("latin1", 18, 22);
+      }
+    } else if (id === "SSND") {
+      const ssnd = await reader.read(body, 8);
+      const blockOffset = ssnd.length === 8 ? ssnd.readUInt32BE(0) : 0;
+      dataOffset = body + 8 + blockOffset;
+      dataSize = Math.min(size - 8 - blockOffset, reader.size - dataOffset);
+    }
+    pos = body + size + (size % 2);
+  }
+
+  if (!sampleRate || !channels) return null;
+  const codec = AIFC_CODECS[compression] ?? compression.trim();
+  const isFloat = codec === "Float";
+  const isPcm = codec === "PCM" || isFloat;
+  if (isFloat && bitDepth === 0) {
+    bitDepth = compression.toLowerCase() === "fl64" ? 64 : 32;
+  }
+
+  const metadata: AudioMetadata = {
+    format: type,
+    codec,
+    durationSec: frames / sampleRate,
+    sampleRate: Math.round(sampleRate),
+    channels,
+    bitDepth: isPcm ? bitDepth : undefined,
+  };
+  const layout: PcmLayout | undefined =
+    isPcm && dataOffset >= 0
+      ? {
+          offset: dataOffset,
+          length: dataSize,
+          sampleRate: Math.round(sampleRate),
+          channels,
+          bitDepth,
+          encoding: isFloat ? "float" : "int",
+          bigEndian: compression !== "sowt",
+        }
+      : undefined;
+  return { metadata, layout };
+}
+
+// --- CAF -------------------------------------------------------------------
+
+const CAF_CODECS: Record<string, string> = {
+  lpcm: "PCM",
+  aac: "AAC",
+  alac: "ALAC",
+  ".mp3": "MP3",
+  ima4: "IMA ADPCM",
+  ulaw: "µ-law",
+  alaw: "A-law",
+  opus: "Opus",
+  flac: "FLAC",
+};
+
+async function parseCaf(reader: FileReader): Promise<ParseResult | null> {
+  let sampleRate = 0;
+  let formatId = "";
+  let bytesPerPacket = 0;
+  let framesPerPacket = 0;
+  let channels = 0;
+  let bitDepth = 0;
+  let validFrames: number | null = null;
+  let dataSize: number | null = null;
+
+  let pos = 8;
+  while (pos + 12 <= reader.size) {
+    const header = await reader.read(pos, 12);
+    if (header.length < 12) break;
+    const id = header.toString("latin1", 0, 4);
+    const size = Number(header.readBigInt64BE(4));
+    const body = pos + 12;
+
+    if (id === "desc") {
+      const desc = await reader.read(body, 32);
+      if (desc.length < 32) return null;
+      sampleRate = desc.readDoubleBE(0);
+      formatId = desc.toString("latin1", 8, 12);
+      bytesPerPacket = desc.readUInt32BE(16);
+      framesPerPacket = desc.readUInt32BE(20);
+      channels = desc.readUInt32BE(24);
+      bitDepth = desc.readUInt32BE(28);
+    } else if (id === "pakt") {
+      const pakt = await reader.read(body, 16);
+      if (pakt.length === 16) validFrames = Number(pakt.readBigInt64BE(8));
+    } else if (id === "data") {
+      // A size of -1 means "until end of file"; the first 4 bytes are an edit count
+      const available = reader.size - body;
+      dataSize = (size < 0 ? available : Math.min(size, available)) - 4;
+      if (size < 0) break;
+    }
+    if (size < 0) break;
+    pos = body + size;
+  }
+
+  if (!sampleRate || !channels) return null;
+  let durationSec: number | undefined;
+  if (validFrames !== null) {
+    durationSec = validFrames / sampleRate;
+  } else if (dataSize !== null && bytesPerPacket > 0 && framesPerPacket > 0) {
+    durationSec = ((dataSize / bytesPerPacket) * framesPerPacket) / sampleRate;
+  }
+
+  const isPcm = formatId === "lpcm";
+  const metadata: AudioMetadata = {
+    format: "CAF",
+    codec: CAF_CODECS[formatId.trim()] ?? formatId.trim(),
+    durationSec,
+    sampleRate: Math.round(sampleRate),
+    channels,
+    bitDepth: isPcm || formatId === "alac" ? bitDepth || undefined : undefined,
+  };
+  return { metadata };
+}
+
+// --- FLAC ------------------------------------------------------------------
+
+async function parseFlac(
+  reader: FileReader,
+  start: number
+): Promise<ParseResult | null> {
+  let pos = start + 4;
+  while (pos + 4 <= reader.size) {
+    const header = await reader.read(pos, 4);
+    if (header.length < 4) break;
+    const isLast = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = header.readUIntBE(1, 3);
+    if (type === 0) {
+      const info = await reader.read(pos + 4, 34);
+      if (info.length < 18) return null;
+      // 20 bits sample rate, 3 bits channels-1, 5 bits bps-1, 36 bits total samples
+      const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+      const channels = ((info[12] >> 1) & 0x07) + 1;
+      const bitDepth = (((info[12] & 0x01) << 4) | (info[13] >> 4)) + 1;
+      const totalSamples = (info[13] & 0x0f) * 2 ** 32 + info.readUInt32BE(14);
+      return {
+        metadata: {
+          format: "FLAC",
+          codec: "FLAC",
+          durationSec:
+            sampleRate && totalSamples ? totalSamples / sampleRate : undefined,
+          sampleRate,
+          channels,
+          bitDepth,
+          bitrate:
+            sampleRate && totalSamples
+              ? Math.round(
+                  ((reader.size - start) * 8 * sampleRate) / totalSamples
+                )
+              : undefined,
+        },
+      };
+    }
+    if (isLast) break;
+    pos += 4 + length;
+  }
+  return null;
+}
+
+// --- MP3 -------------------------------------------------------------------
+
+const MP3_BITRATES: Record<string, number[]> = {
+  // [version][layer] in kbps; version "1" = MPEG-1, "2" = MPEG-2 and 2.5
+  "1-1": [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  "1-2": [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  "1-3": [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  "2-1": [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  "2-2": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  "2-3": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000], // MPEG-2.5
+};
+
+interface Mp3Frame {
+  version: number; // 3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5
+  layer: number; // 1, 2 or 3
+  bitrate: number; // bps
+  sampleRate: number;
+  channels: number;
+  samplesPerFrame: number;
+  length: number; // bytes, including header
+}
+
+function parseMp3Frame(buf: Buffer, offset: number): Mp3Frame | null {
+  if (offset + 4 > buf.length) return null;
+  if (buf[offset] !== 0xff || (buf[offset + 1] & 0xe0) !== 0xe0) return null;
+  const version = (buf[offset + 1] >> 3) & 0x03;
+  const layerBits = (buf[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = buf[offset + 2] >> 4;
+  const rateIndex = (buf[offset + 2] >> 2) & 0x03;
+  const padding = (buf[offset + 2] >> 1) & 0x01;
+  const channelMode = buf[offset + 3] >> 6;
+  if (version === 1 || layerBits === 0) return null;
+  if (bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+
+  const layer = 4 - layerBits;
+  const table = MP3_BITRATES[`${version === 3 ? 1 : 2}-${layer}`];
+  const bitrate = table[bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[version][rateIndex];
+  let samplesPerFrame: number;
+  let length: number;
+  if (layer === 1) {
+    samplesPerFrame = 384;
+    length = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+  } else {
+    samplesPerFrame = layer === 3 && version !== 3 ? 576 : 1152;
+    length =
+      Math.floor(((samplesPerFrame / 8) * bitrate) / sampleRate) + padding;
+  }
+  return {
+    version,
+    layer,
+    bitrate,
+    sampleRate,
+    channels: channelMode === 3 ? 1 : 2,
+    samplesPerFrame,
+    length,
+  };
+}
+
+function findMp3Frame(buf: Buffer, from: number): number {
+  for (let i = from; i + 4 <= buf.length; i++) {
+    if (buf[i] !== 0xff) continue;
+    const frame = parseMp3Frame(buf, i);
+    // Require a second valid header right after to avoid false syncs
+    if (frame && parseMp3Frame(buf, i + frame.length)) return i;
+    if (frame && i + frame.length >= buf.length) return i;
+  }
+  return -1;
+}
+
+async function parseMp3(
+  reader: FileReader,
+  start: number
+): Promise<ParseResult | null> {
+  const scanLength = Math.min(reader.size - start, MAX_SCAN_BYTES);
+  const buf = await reader.read(start, scanLength);
+  const first = findMp3Frame(buf, 0);
+  if (first < 0) return null;
+  const frame = parseMp3Frame(buf, first);
+  if (!frame) return null;
+
+  const metadata: AudioMetadata = {
+    format: "MP3",
+    codec: frame.layer === 3 ? "MP3" : `MPEG Layer ${frame.layer}`,
+    sampleRate: frame.sampleRate,
+    channels: frame.channels,
+  };
+
+  // Xing/Info header lives after the side information of the first frame
+  const sideInfo =
+    frame.version === 3
+      ? frame.channels === 1
+        ? 17
+        : 32
+      : frame.channels === 1
+      ? 9
+      : 17;
+  const xing = first + 4 + sideInfo;
+  const xingTag = buf.toString("latin1", xing, xing + 4);
+  if ((xingTag === "Xing" || xingTag === "Info") && xing + 12 <= buf.length) {
+    const flags = buf.readUInt32BE(xing + 4);
+    if (flags & 0x01) {
+      const frames = buf.readUInt32BE(xing + 8);
+      const bytes =
+        flags & 0x02 && xing + 16 <= buf.length
+          ? buf.readUInt32BE(xing + 12)
+          : reader.size - start - first;
+      metadata.durationSec =
+        (frames * frame.samplesPerFrame) / frame.sampleRate;
+      if (metadata.durationSec > 0) {
+        metadata.bitrate = Math.round((bytes * 8) / metadata.durationSec);
+      }
+      return { metadata };
+    }
+  }
+
+  // VBRI header (Fraunhofer encoder) sits 32 bytes after the frame header
+  const vbri = first + 36;
+  if (
+    buf.toString("latin1", vbri, vbri + 4) === "VBRI" &&
+    vbri + 18 <= buf.length
+  ) {
+    const bytes = buf.readUInt32BE(vbri + 10);
+    const frames = buf.readUInt32BE(vbri + 14);
+    metadata.durationSec = (frames * frame.samplesPerFrame) / frame.sampleRate;
+    if (metadata.durationSec > 0) {
+      metadata.bitrate = Math.round((bytes * 8) / metadata.durationSec);
+    }
+    return { metadata };
+  }
+
+  // No VBR header: walk the frames. Exact when the whole file fits in the scan
+  // window, otherwise extrapolated from the average bitrate of what we saw.
+  let pos = first;
+  let frames = 0;
+  let samples = 0;
+  let bytes = 0;
+  while (pos + 4 <= buf.length) {
+    const f = parseMp3Frame(buf, pos);
+    if (!f) {
+      const next = findMp3Frame(buf, pos + 1);
+      if (next < 0) break;
+      pos = next;
+      continue;
+    }
+    frames++;
+    samples += f.samplesPerFrame;
+    bytes += f.length;
+    pos += f.length;
+  }
+  if (frames === 0) return { metadata };
+  const scannedSec = samples / frame.sampleRate;
+  const avgBitrate = (bytes * 8) / scannedSec;
+  const remaining = reader.size - start - first;
+  metadata.bitrate = Math.round(avgBitrate);
+  metadata.durationSec =
+    scanLength >= reader.size - start
+      ? scannedSec
+      : (remaining * 8) / avgBitrate;
+  return { metadata };
+}
+
+// --- AAC (ADTS) ------------------------------------------------------------
+
+const AAC_SAMPLE_RATES = [
+  96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025,
+  8000, 7350,
+];
+
+function isAdtsHeader(buf: Buffer, offset: number): boolean {
+  return (
+    offset + 7 <= buf.length &&
+    buf[offset] === 0xff &&
+    (buf[offset + 1] & 0xf6) === 0xf0
+  );
+}
+
+async function parseAdts(
+  reader: FileReader,
+  start: number
+): Promise<ParseResult | null> {
+  const scanLength = Math.min(reader.size - start, MAX_SCAN_BYTES);
+  const buf = await reader.read(start, scanLength);
+  if (!isAdtsHeader(buf, 0)) return null;
+  const rateIndex = (buf[2] >> 2) & 0x0f;
+  const sampleRate = AAC_SAMPLE_RATES[rateIndex];
+  const channels = ((buf[2] & 0x01) << 2) | (buf[3] >> 6);
+  if (!sampleRate) return null;
+
+  let pos = 0;
+  let frames = 0;
+  while (isAdtsHeader(buf, pos)) {
+    const length =
+      ((buf[pos + 3] & 0x03) << 11) | (buf[pos + 4] << 3) | (buf[pos + 5] >> 5);
+    if (length < 7) break;
+    // raw_data_blocks + 1 AAC frames of 1024 samples each
+    frames += (buf[pos + 6] & 0x03) + 1;
+    pos += length;
+  }
+  const scannedSec = (frames * 1024) / sampleRate;
+  const metadata: AudioMetadata = {
+    format: "AAC",
+    codec: "AAC",
+    sampleRate,
+    channels: channels || undefined,
+  };
+  if (scannedSec > 0) {
+    const avgBitrate = (pos * 8) / scannedSec;
+    metadata.bitrate = Math.round(avgBitrate);
+    metadata.durationSec =
+      scanLength >= reader.size - start
+        ? scannedSec
+        : ((reader.size - start) * 8) / avgBitrate;
+  }
+  return { metadata };
+}
+
+// --- MP4 / M4A -------------------------------------------------------------
+
+const MP4_CONTAINERS = new Set(["moov", "trak", "mdia", "minf", "stbl"]);
+
+const MP4_CODECS: Record<string, string> = {
+  mp4a: "AAC",
+  alac: "ALAC",
+  "ac-3": "AC-3",
+  "ec-3": "E-AC-3",
+  Opus: "Opus",
+  fLaC: "FLAC",
+  lpcm: "PCM",
+  sowt: "PCM",
+  twos: "PCM",
+};
+
+interface Mp4Track {
+  handler?: string;
+  timescale?: number;
+  duration?: number;
+  codec?: string;
+  sampleRate?: number;
+  channels?: number;
+  bitDepth?: number;
+}
+
+async function parseMp4(reader: FileReader): Promise<ParseResult | null> {
+  // Top-level boxes: find moov, which may sit at the end of the file
+  let pos = 0;
+  let moov: Buffer | null = null;
+  while (pos + 8 <= reader.size) {
+    const header = await reader.read(pos, 16);
+    if (header.length < 8) break;
+    let size = header.readUInt32BE(0);
+    const type = header.toString("latin1", 4, 8);
+    let headerSize = 8;
+    if (size === 1 && header.length >= 16) {
+      size = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = reader.size - pos;
+    }
+    if (size < headerSize) break;
+    if (type === "moov") {
+      moov = await reader.read(
+        pos + headerSize,
+        Math.min(size - headerSize, 16 * 1024 * 1024)
+      );
+      break;
+    }
+    pos += size;
+  }
+  if (!moov) return null;
+
+  let movieDuration: number | undefined;
+  const tracks: Mp4Track[] = [];
+  let track: Mp4Track | null = null;
+
+  const walk = (buf: Buffer, from: number, to: number) => {
+    let p = from;
+    while (p + 8 <= to) {
+      let size = buf.readUInt32BE(p);
+      const type = buf.toString("latin1", p + 4, p + 8);
+      let headerSize = 8;
+      if (size === 1 && p + 16 <= to) {
+        size = Number(buf.readBigUInt64BE(p + 8));
+        headerSize = 16;
+      } else if (size === 0) {
+        size = to - p;
+      }
+      if (size < headerSize || p + size > to) break;
+      const body = p + headerSize;
+
+      if (type === "trak") {
+        track = {};
+        tracks.push(track);
+      }
+      if (MP4_CONTAINERS.has(type)) {
+        walk(buf, body, p + size);
+      } else if (type === "mvhd") {
+        const { timescale, duration } = readMp4Duration(buf, body);
+        if (timescale) movieDuration = duration / timescale;
+      } else if (type === "mdhd" && track) {
+        const { timescale, duration } = readMp4Duration(buf, body);
+        track.timescale = timescale;
+        track.duration = duration;
+      } else if (type === "hdlr" && track) {
+        track.handler = buf.toString("latin1", body + 8, body + 12);
+      } else if (type === "stsd" && track && body + 16 <= p + size) {
+        // First sample entry: size, format, 6 reserved, data ref index,
+        // 8 bytes version/revision/vendor, channels, sample size, 4 reserved, rate 16.16
+        const entry = body + 8;
+        track.codec = buf.toString("latin1", entry + 4, entry + 8);
+        const audio = entry + 8 + 8 + 8;
+        if (audio + 12 <= p + size) {
+          track.channels = buf.readUInt16BE(audio);
+          track.bitDepth = buf.readUInt16BE(audio + 2);
+          track.sampleRate = buf.readUInt32BE(audio + 8) >>> 16;
+        }
+        if (track.codec === "alac") {
+          // The ALAC magic cookie carries the real bit depth, channels and rate
+          const cookie = buf.indexOf("alac", audio + 12, "latin1");
+          if (cookie > 0 && cookie + 32 <= p + size) {
+            const c = cookie + 4 + 4; // skip type and version/flags
+            track.bitDepth = buf[c + 5];
+            track.channels = buf[c + 9];
+            track.sampleRate = buf.readUInt32BE(c + 20);
+          }
+        }
+      }
+      p += size;
+    }
+  };
+  walk(moov, 0, moov.length);
+
+  const audio = tracks.find((t) => t.handler === "soun") ?? tracks[0];
+  if (!audio && movieDuration === undefined) return null;
+  const codec = audio?.codec
+    ? MP4_CODECS[audio.codec] ?? audio.codec.trim()
+    : undefined;
+  const trackDuration =
+    audio?.timescale && audio.duration !== undefined
+      ? audio.duration / audio.timescale
+      : undefined;
+  const durationSec = trackDuration ?? movieDuration;
+  const lossless = codec === "ALAC" || codec === "FLAC" || codec === "PCM";
+  return {
+    metadata: {
+      format: "MP4",
+      codec,
+      durationSec,
+      sampleRate: audio?.sampleRate || undefined,
+      channels: audio?.channels || undefined,
+      bitDepth: lossless ? audio?.bitDepth || undefined : undefined,
+      bitrate:
+        durationSec && !lossless
+          ? Math.round((reader.size * 8) / durationSec)
+          : undefined,
+    },
+  };
+}
+
+function readMp4Duration(
+  buf: Buffer,
+  body: number
+): { timescale: number; duration: number } {
+  const version = buf[body];
+  if (version === 1) {
+    return {
+      timescale: buf.readUInt32BE(body + 20),
+      duration: Number(buf.readBigUInt64BE(body + 24)),
+    };
+  }
+  return {
+    timescale: buf.readUInt32BE(body + 12),
+    duration: buf.readUInt32BE(body + 16),
+  };
+}
+
+// --- Ogg Vorbis / Opus -----------------------------------------------------
+
+async function parseOgg(
+  reader: FileReader,
+  head: Buffer
+): Promise<ParseResult | null> {
+  if (head.length < 28) return null;
+  const segments = head[26];
+  const packet = 27 + segments;
+  let metadata: AudioMetadata;
+  let preSkip = 0;
+  let granuleRate: number;
+
+  if (head.toString("latin1", packet + 1, packet + 7) === "vorbis") {
+    const channels = head[packet + 11];
+    const sampleRate = head.readUInt32LE(packet + 12);
+    const nominal = head.readInt32LE(packet + 20);
+    metadata = {
+      format: "Ogg",
+      codec: "Vorbis",
+      sampleRate,
+      channels,
+      bitrate: nominal > 0 ? nominal : undefined,
+    };
+    granuleRate = sampleRate;
+  } else if (head.toString("latin1", packet, packet + 8) === "OpusHead") {
+    const channels = head[packet + 9];
+    preSkip = head.readUInt16LE(packet + 10);
+    const inputRate = head.readUInt32LE(packet + 12);
+    metadata = {
+      format: "Ogg",
+      codec: "Opus",
+      // Opus always decodes at 48 kHz; report the original rate when present
+      sampleRate: inputRate || 48000,
+      channels,
+    };
+    granuleRate = 48000;
+  } else {
+    return null;
+  }
+
+  // The granule position of the last page is the total sample count
+  const tailSize = Math.min(reader.size, HEAD_BYTES);
+  const tail = await reader.read(reader.size - tailSize, tailSize);
+  let last = tail.lastIndexOf("OggS", tail.length - 4, "latin1");
+  while (last >= 0) {
+    if (last + 14 <= tail.length) {
+      const granule = Number(tail.readBigInt64LE(last + 6));
+      if (granule >= 0) {
+        metadata.durationSec = Math.max(0, granule - preSkip) / granuleRate;
+        break;
+      }
+    }
+    last = tail.lastIndexOf("OggS", last - 1, "latin1");
+  }
+  if (metadata.durationSec && !metadata.bitrate) {
+    metadata.bitrate = Math.round((reader.size * 8) / metadata.durationSec);
+  }
+  return { metadata };
+}
+
+// --- Formatting ------------------------------------------------------------
+
+export function formatDuration(seconds: number | undefined): string {
+  if (seconds === undefined || !isFinite(seconds)) return "";
+  if (seconds < 10) return `${seconds.toFixed(1)}s`;
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+export function formatSampleRate(rate: number | undefined): string {
+  if (!rate) return "";
+  const khz = rate / 1000;
+  return `${Number.isInteger(khz) ? khz : khz.toFixed(1)} kHz`;
+}
+
+export function formatChannels(channels: number | undefined): string {
+  if (!channels) return "";
+  if (channels === 1) return "Mono";
+  if (channels === 2) return "Stereo";
+  return `${channels} ch`;
+}
+
+export function formatBitDepth(bitDepth: number | undefined): string {
+  return bitDepth ? `${bitDepth}-bit` : "";
+}
@@ -0,0 +1,54 @@
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
+import { AudioItem } from "./audio-item";
+
+interface AuditionSummaryProps {
+  kept: AudioItem[];
+  played: number;
+  skipped: number;
+  total: number;
+  renderItemActions: (item: AudioItem) => JSX.Element;
+}
+
+/**
+ * Shown when an audition pass ends: the files that were kept, with the usual
+ * file actions.
+ */
+export function AuditionSummary(props: AuditionSummaryProps) {
+  const { kept, played, skipped, total, renderItemActions } = props;
+  const keptPaths = kept.map((item) => item.path).join("\n");
+  return (
+    <List navigationTitle="Audition Summary">
+      <List.EmptyView
+        icon={Icon.SpeakerOff}
+        title="Nothing Kept"
+        description={`Auditioned ${played} of ${total} files, skipped ${skipped}`}
+      />
+      <List.Section
+        title={`Kept ${kept.length}`}
+        subtitle={`Auditioned ${played} of ${total} · Skipped ${skipped}`}
+      >
+        {kept.map((item) => (
+          <List.Item
+            key={item.path}
+            id={item.path}
+            title={item.name}
+            subtitle={item.category}
+            icon={Icon.Heart}
+            actions={
+              <ActionPanel>
+                {renderItemActions(item)}
+                <ActionPanel.Section>
+                  <Action.CopyToClipboard
+                    title="Copy Kept Paths"
+                    content={keptPaths}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                  />
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,103 @@
+import { Action, ActionPanel, Color, Icon, List } from "@raycast/api";
+import path from "path";
+import { AudioItem } from "./audio-item";
+import { OnDemandBatchLayout } from "./bridge-utils";
+
+export interface BatchImportEntry {
+  path: string;
+  // skipped: the batch was cancelled before the file was imported
+  status: "imported" | "failed" | "skipped";
+  detail?: string;
+}
+
+export function describeBatchLayout(layout: OnDemandBatchLayout): string {
+  switch (layout.kind) {
+    case "stack":
+      return "Stacked at Playhead";
+    case "sequential":
+      return layout.gapSec > 0
+        ? `End to End, ${layout.gapSec} s Apart`
+        : "End to End";
+    case "markers":
+      return "One per Comp Marker";
+  }
+}
+
+interface BatchImportReportProps {
+  entries: BatchImportEntry[];
+  layout: OnDemandBatchLayout;
+  cancelled: boolean;
+  items: AudioItem[];
+  renderItemActions: (item: AudioItem) => JSX.Element;
+}
+
+const SECTIONS: { status: BatchImportEntry["status"]; title: string }[] = [
+  { status: "failed", title: "Failed" },
+  { status: "imported", title: "Imported" },
+  { status: "skipped", title: "Not Imported" },
+];
+
+/**
+ * Shown when a batch import ends: how each file went, failures first, with the
+ * usual file actions.
+ */
+export function BatchImportReport(props: BatchImportReportProps) {
+  const { entries, layout, cancelled, items, renderItemActions } = props;
+  const byPath = new Map(items.map((i) => [i.path, i]));
+  const imported = entries.filter((e) => e.status === "imported").length;
+  const report = entries
+    .map((e) => `${e.status}\t${e.path}${e.detail ? `\t${e.detail}` : ""}`)
+    .join("\n");
+  return (
+    <List
+      navigationTitle={`Imported ${imported} of ${entries.length}${
+        cancelled ? " · Cancelled" : ""
+      }`}
+    >
+      {SECTIONS.map(({ status, title }) => {
+        const section = entries.filter((e) => e.status === status);
+        if (section.length === 0) return null;
+        return (
+          <List.Section
+            key={status}
+            title={`${title} ${section.length}`}
+            subtitle={
+              status === "imported" ? describeBatchLayout(layout) : undefined
+            }
+          >
+            {section.map((entry) => {
+              const item = byPath.get(entry.path);
+              return (
+                <List.Item
+                  key={entry.path}
+                  id={entry.path}
+                  title={path.basename(entry.path)}
+                  subtitle={entry.detail}
+                  icon={
+                    status === "imported"
+                      ? { source: Icon.CheckCircle, tintColor: Color.Green }
+                      : status === "failed"
+                      ? { source: Icon.XMarkCircle, tintColor: Color.Red }
+                      : Icon.Circle
+                  }
+                  actions={
+                    <ActionPanel>
+                      {item ? renderItemActions(item) : null}
+                      <ActionPanel.Section>
+                        <Action.CopyToClipboard
+                          title="Copy Report"
+                          content={report}
+                          shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                        />
+                      </ActionPanel.Section>
+                    </ActionPanel>
+                  }
+                />
+              );
+            })}
+          </List.Section>
+        );
+      })}
+    </List>
+  );
+}
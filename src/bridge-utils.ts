@@ -295,6 +295,39 @@ export async function isAERunning(): Promise<boolean> {
   }
 }
 
+/**
+ * Path of the project open in After Effects, or null when it is unsaved, AE
+ * isn't running or doesn't answer within a few seconds
+ */
+export async function getAEProjectPath(): Promise<string | null> {
+  try {
+    const { spawn } = require('child_process');
+    const result = await new Promise<string>((resolve, reject) => {
+      const proc = spawn("/usr/bin/osascript", [
+        "-e", `tell application "After Effects" to DoScript "(app.project && app.project.file) ? app.project.file.fsName : ''"`
+      ]);
+      let stdout = "";
+      const timer = setTimeout(() => {
+        proc.kill();
+        reject(new Error("AppleScript timed out"));
+      }, 5000);
+
+      proc.stdout?.on("data", (data: Buffer) => stdout += data.toString());
+      proc.on("close", (code: number) => {
+        clearTimeout(timer);
+        if (code === 0) resolve(stdout);
+        else reject(new Error(`AppleScript failed`));
+      });
+      proc.on("error", reject);
+    });
+
+    const projectPath = result.trim();
+    return projectPath ? projectPath : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Log utility functions
  */
@@ -331,26 +364,668 @@ export function getLogFilePath(extensionName: string): string {
 // === NEW ON-DEMAND BRIDGE FUNCTIONS ===
 
 export type OnDemandCommand =
-  | { action: "import_audio"; path: string; requireActiveComp?: boolean }
+  | { action: "import_audio"; path: string; requireActiveComp?: boolean; stretch?: number; placement?: OnDemandPlacement; levels?: OnDemandLevels }
+  | { action: "import_layers"; layers: OnDemandLayer[]; levels?: OnDemandLevels }
+  | { action: "import_on_markers"; sounds: OnDemandSound[]; markers: "comp" | "layer"; pattern?: string; levels?: OnDemandLevels }
+  | { action: "import_batch"; files: OnDemandSound[]; layout: OnDemandBatchLayout; levels?: OnDemandLevels }
   | { action: "run_jsx_text"; code: string }
   | { action: "run_jsx_file"; path: string };
 
+export type OnDemandCompTarget =
+  | { by: "active" }
+  | { by: "selected" } // every comp selected in the Project panel
+  | { by: "name"; name: string }
+  | { by: "id"; id: number };
+
+// Where import_audio puts the layer. Without it the layer goes on top of the
+// active comp at the playhead.
+export interface OnDemandPlacement {
+  comp?: OnDemandCompTarget;
+  position?: "top" | "aboveSelected" | "belowSelected";
+  start?: "playhead" | "workAreaStart";
+  // Trim, in seconds into the sound; the in point lands on the start time
+  inPointSec?: number;
+  outPointSec?: number;
+  label?: number; // AE label colour, 0 = none, 1..16
+  layerName?: string;
+}
+
+// How a level ramp moves: evenly in dB, or eased at its start, end or both
+export type OnDemandFadeCurve = "linear" | "easeIn" | "easeOut" | "smooth";
+
+// Audio Levels keyframes for an imported layer: fades from silence and back,
+// a base level, and optionally dips wherever other audio layers in the comp play
+export interface OnDemandLevels {
+  fadeInSec: number;
+  fadeOutSec: number;
+  curve: OnDemandFadeCurve;
+  levelDb: number;
+  ducking?: {
+    depthDb: number; // added to the level under other audio, e.g. -10
+    rampSec: number;
+  };
+}
+
+// One file of a layer stack, placed `offsetSec` after the comp's current time
+export interface OnDemandLayer {
+  path: string;
+  offsetSec: number;
+  gainDb: number;
+}
+
+// A sound to import, with the layer stretch that plays it at the previewed speed
+export interface OnDemandSound {
+  path: string;
+  stretch?: number;
+}
+
+// How import_batch lays the files out in the active comp: all at the playhead,
+// end to end from the playhead, or one per comp marker in marker order
+export type OnDemandBatchLayout =
+  | { kind: "stack" }
+  | { kind: "sequential"; gapSec: number }
+  | { kind: "markers" };
+
+// A layer the command created, by comp item id and layer index. `id` is only
+// set by AE versions that give layers ids.
+export interface OnDemandLayerRef {
+  compId: number;
+  index: number;
+  id?: number;
+}
+
+// How one file of import_batch went, in the order the files were sent. Files
+// after a cancellation have no entry.
+export interface OnDemandFileResult {
+  path: string;
+  ok: boolean;
+  error?: string; // also set on an imported file whose levels failed
+  layer?: OnDemandLayerRef; // unset when there was no active comp
+}
+
 export interface OnDemandResult {
   ok: boolean;
   result?: {
     requestId: string;
     operation: string;
     elapsedMs: number;
+    itemIds?: number[]; // project items imported or created
+    layers?: OnDemandLayerRef[];
+    placed?: number; // layers added to comps
+    files?: OnDemandFileResult[];
+    cancelled?: boolean;
   };
   error?: string;
   stack?: string;
 }
 
+export interface OnDemandRunOptions {
+  // Progress of commands that report it, import_batch so far
+  onProgress?: (done: number, total: number) => void;
+  // Asks such commands to stop before their next file
+  signal?: AbortSignal;
+}
+
+// How long the direct path waits for AE to write the result once osascript
+// has returned; DoScriptFile normally runs the script before returning
+const DIRECT_RESULT_TIMEOUT_MS = 10000;
+// AppleScript gives up on DoScriptFile after two minutes by default, which a
+// large batch can exceed
+const BATCH_APPLE_EVENT_TIMEOUT_SEC = 3600;
+const PROGRESS_POLL_MS = 250;
+
+/**
+ * A value as a JavaScript literal that ExtendScript accepts.
+ */
+function jsxLiteral(value: unknown): string {
+  return JSON.stringify(value).replace(/\u2028/g, "\\u2028").replace(/\u2029/g, "\\u2029");
+}
+
+// ExtendScript has no JSON object; this serialises the result artifact
+const JSX_RESULT_HELPERS = String.raw`
+  function __rbJson(v) {
+    if (v === null || v === undefined) return 'null';
+    if (typeof v === 'number') return isFinite(v) ? String(v) : 'null';
+    if (typeof v === 'boolean') return v ? 'true' : 'false';
+    if (typeof v === 'string') {
+      return '"' + v.replace(/[\\"]/g, '\\$&').replace(/[\u0000-\u001f]/g, function(c) {
+        return '\\u' + ('000' + c.charCodeAt(0).toString(16)).slice(-4);
+      }) + '"';
+    }
+    var parts = [];
+    if (v instanceof Array) {
+      for (var i = 0; i < v.length; i++) parts.push(__rbJson(v[i]));
+      return '[' + parts.join(',') + ']';
+    }
+    for (var k in v) {
+      if (v.hasOwnProperty(k)) parts.push(__rbJson(k) + ':' + __rbJson(v[k]));
+    }
+    return '{' + parts.join(',') + '}';
+  }
+  function __rbLayer(created, comp, layer) {
+    var ref = { compId: comp.id, index: layer.index };
+    try { if (layer.id !== undefined) ref.id = layer.id; } catch(_) {}
+    created.layers.push(ref);
+  }
+  function __rbFinish(ok, error, created) {
+    var result = {
+      ok: ok,
+      result: {
+        requestId: __rbRequestId,
+        operation: __rbOperation,
+        elapsedMs: new Date().getTime() - __rbStart,
+        itemIds: created.itemIds,
+        layers: created.layers,
+        placed: created.layers.length
+      }
+    };
+    if (created.files) result.result.files = created.files;
+    if (created.cancelled) result.result.cancelled = true;
+    if (error) {
+      result.error = String(error.message || error);
+      result.stack = (error.line ? 'line ' + error.line + '\n' : '') + ($.stack || '');
+    }
+    // Written under a temporary name and renamed, so Raycast never reads half a file
+    var tmp = new File(__rbArtifact + '.tmp');
+    tmp.encoding = 'UTF-8';
+    tmp.open('w');
+    tmp.write(__rbJson(result));
+    tmp.close();
+    if (!tmp.rename(new File(__rbArtifact).name)) {
+      tmp.remove();
+      throw new Error("Can't write result to " + __rbArtifact);
+    }
+  }
+`;
+
+/**
+ * Wrap `body` so that it reports to `artifactPath` whether it succeeded, how
+ * long it took and what it created. The body throws to fail and records what
+ * it creates in `created.itemIds`, or with `__rbLayer(created, comp, layer)`.
+ * Batches also report `created.files` and `created.cancelled`.
+ */
+function withResultArtifact(body: string, operation: string, requestId: string, artifactPath: string): string {
+  return `
+(function() {
+  var __rbStart = new Date().getTime();
+  var __rbRequestId = ${jsxLiteral(requestId)};
+  var __rbOperation = ${jsxLiteral(operation)};
+  var __rbArtifact = ${jsxLiteral(artifactPath)};
+${JSX_RESULT_HELPERS}
+  var created = { itemIds: [], layers: [] };
+  var __rbError = null;
+  try {
+${body}
+  } catch(e) {
+    __rbError = e;
+  }
+  // Outside the try, so failing to write the artifact can't report the work as failed
+  try { __rbFinish(!__rbError, __rbError, created); } catch(_) {}
+})();
+`;
+}
+
+// Finds or creates the project's Audio bin
+const JSX_AUDIO_BIN = `
+    function audioBin() {
+      for (var i = 1; i <= prj.items.length; i++) {
+        var it = prj.items[i];
+        if (it instanceof FolderItem && it.name === 'Audio') return it;
+      }
+      return prj.items.addFolder('Audio');
+    }`;
+
+// Applies OnDemandLevels as Audio Levels keyframes. Layer property keyframes
+// are set in comp time, so the layer's in and out points are used directly.
+// Imports of several layers add them on top and pass their count as
+// `ownLayers`, so they duck under the comp's other audio but not each other.
+const JSX_APPLY_LEVELS = `
+    function applyLevels(comp, layer, lv, ownLayers) {
+      if (!layer.hasAudio) return;
+      var SILENT_DB = -96;
+      var prop = layer.property('ADBE Audio Group').property('ADBE Audio Levels');
+      var start = layer.inPoint;
+      var end = layer.outPoint;
+      var fadeIn = Math.min(lv.fadeInSec, (end - start) / 2);
+      var fadeOut = Math.min(lv.fadeOutSec, (end - start) / 2);
+      var bodyStart = start + fadeIn;
+      var bodyEnd = end - fadeOut;
+      var ducked = lv.levelDb + (lv.ducking ? lv.ducking.depthDb : 0);
+      var startDb = lv.levelDb;
+      var endDb = lv.levelDb;
+      var keys = [];
+      var ramps = [];
+
+      if (lv.ducking) {
+        // Where other audible layers play under this one, merged when the
+        // level would barely recover in between
+        var ramp = lv.ducking.rampSec;
+        var spans = [];
+        for (var i = 1; i <= comp.numLayers; i++) {
+          var other = comp.layer(i);
+          if (other.index === layer.index || other.index <= (ownLayers || 0)) continue;
+          if (!other.hasAudio || !other.audioEnabled) continue;
+          var s = Math.max(other.inPoint, bodyStart);
+          var e = Math.min(other.outPoint, bodyEnd);
+          if (e > s) spans.push([s, e]);
+        }
+        spans.sort(function(a, b) { return a[0] - b[0]; });
+        var merged = [];
+        for (var j = 0; j < spans.length; j++) {
+          var last = merged.length > 0 ? merged[merged.length - 1] : null;
+          if (last && spans[j][0] <= last[1] + 2 * ramp) last[1] = Math.max(last[1], spans[j][1]);
+          else merged.push([spans[j][0], spans[j][1]]);
+        }
+        for (var m = 0; m < merged.length; m++) {
+          var ds = merged[m][0];
+          var de = merged[m][1];
+          if (ds <= bodyStart) {
+            startDb = ducked;
+          } else {
+            var down = Math.max(bodyStart, ds - ramp);
+            keys.push([down, lv.levelDb], [ds, ducked]);
+            ramps.push([down, ds]);
+          }
+          if (de >= bodyEnd) {
+            endDb = ducked;
+          } else {
+            var up = Math.min(bodyEnd, de + ramp);
+            keys.push([de, ducked], [up, lv.levelDb]);
+            ramps.push([de, up]);
+          }
+        }
+      }
+      if (fadeIn > 0) {
+        keys.push([start, SILENT_DB], [bodyStart, startDb]);
+        ramps.push([start, bodyStart]);
+      }
+      if (fadeOut > 0) {
+        keys.push([bodyEnd, endDb], [end, SILENT_DB]);
+        ramps.push([bodyEnd, end]);
+      }
+
+      if (keys.length === 0) {
+        if (lv.levelDb !== 0) prop.setValue([lv.levelDb, lv.levelDb]);
+        return;
+      }
+      for (var k = 0; k < keys.length; k++) {
+        prop.setValueAtTime(keys[k][0], [keys[k][1], keys[k][1]]);
+      }
+      for (var n = 1; n <= prop.numKeys; n++) {
+        prop.setInterpolationTypeAtKey(n, KeyframeInterpolationType.LINEAR, KeyframeInterpolationType.LINEAR);
+      }
+      if (lv.curve === 'linear') return;
+      // AE's Easy Ease
+      var ease = [new KeyframeEase(0, 33.33), new KeyframeEase(0, 33.33)];
+      for (var r = 0; r < ramps.length; r++) {
+        var from = prop.nearestKeyIndex(ramps[r][0]);
+        var to = prop.nearestKeyIndex(ramps[r][1]);
+        if (lv.curve === 'easeIn' || lv.curve === 'smooth') {
+          prop.setInterpolationTypeAtKey(from, prop.keyInInterpolationType(from), KeyframeInterpolationType.BEZIER);
+          prop.setTemporalEaseAtKey(from, prop.keyInTemporalEase(from), ease);
+        }
+        if (lv.curve === 'easeOut' || lv.curve === 'smooth') {
+          prop.setInterpolationTypeAtKey(to, KeyframeInterpolationType.BEZIER, prop.keyOutInterpolationType(to));
+          prop.setTemporalEaseAtKey(to, ease, prop.keyOutTemporalEase(to));
+        }
+      }
+    }`;
+
+/**
+ * JSX that imports one file into the project's Audio bin and adds it to the
+ * comps the placement targets: by default the active one, at the current time.
+ * Without a comp to add to, the file is only imported unless one is required.
+ * `levels` is applied once the layer is trimmed.
+ */
+function importAudioJsx(cmd: { path: string; requireActiveComp?: boolean; stretch?: number; placement?: OnDemandPlacement; levels?: OnDemandLevels }): string {
+  const placement = cmd.placement ?? {};
+  const target = placement.comp ?? { by: "active" };
+  // Layer time stretch in percent; AE resamples, so pitch follows speed
+  const stretch = cmd.stretch && cmd.stretch !== 100 ? cmd.stretch : 100;
+  const options = jsxLiteral({
+    position: placement.position ?? "top",
+    start: placement.start ?? "playhead",
+    inPoint: placement.inPointSec ?? null,
+    outPoint: placement.outPointSec ?? null,
+    label: placement.label ?? null,
+    name: placement.layerName || null,
+    stretch,
+    levels: cmd.levels ?? null,
+  });
+  const required = target.by !== "active" || cmd.requireActiveComp;
+  return `
+    var prj = app.project;
+    if (!prj) throw new Error("No project open");
+    var opts = ${options};
+${JSX_AUDIO_BIN}
+${JSX_APPLY_LEVELS}
+
+    var comps = [];
+    ${
+      target.by === "active"
+        ? `if (prj.activeItem instanceof CompItem) comps.push(prj.activeItem);`
+        : target.by === "selected"
+        ? `for (var s = 0; s < prj.selection.length; s++) {
+      if (prj.selection[s] instanceof CompItem) comps.push(prj.selection[s]);
+    }`
+        : target.by === "id"
+        ? `var byId = null;
+    try { byId = prj.itemByID(${Number(target.id)}); } catch(_) {}
+    if (byId instanceof CompItem) comps.push(byId);`
+        : `for (var n = 1; n <= prj.items.length; n++) {
+      if (prj.items[n] instanceof CompItem && prj.items[n].name === ${jsxLiteral(target.name)}) comps.push(prj.items[n]);
+    }`
+    }
+    if (${required ? "true" : "false"} && comps.length === 0) throw new Error(${jsxLiteral(
+      target.by === "active"
+        ? "No active comp"
+        : target.by === "selected"
+        ? "No comps selected in the Project panel"
+        : target.by === "id"
+        ? `No comp with ID ${target.id}`
+        : `No comp named "${target.name}"`
+    )});
+
+    var footage = prj.importFile(new ImportOptions(new File(${jsxLiteral(cmd.path)})));
+    if (!footage) throw new Error("Failed to import file");
+    created.itemIds.push(footage.id);
+    try { footage.parentFolder = audioBin(); } catch(_) {}
+
+    if (comps.length > 0) {
+      app.beginUndoGroup('Add Audio');
+      try {
+        for (var c = 0; c < comps.length; c++) {
+          var comp = comps[c];
+          var selected = comp.selectedLayers.length > 0 ? comp.selectedLayers[0] : null;
+          var layer = comp.layers.add(footage);
+          if (opts.stretch !== 100) {
+            try { layer.stretch = opts.stretch; } catch(_) {}
+          }
+          if (selected && opts.position === 'aboveSelected') layer.moveBefore(selected);
+          if (selected && opts.position === 'belowSelected') layer.moveAfter(selected);
+          var at = opts.start === 'workAreaStart' ? comp.workAreaStart : comp.time;
+          var scale = opts.stretch / 100;
+          try {
+            // Slide the layer so its in point, not the start of the file, is at the start time
+            layer.startTime = at - (opts.inPoint !== null ? opts.inPoint * scale : 0);
+            if (opts.inPoint !== null) layer.inPoint = at;
+            if (opts.outPoint !== null) layer.outPoint = layer.startTime + opts.outPoint * scale;
+          } catch(_) {}
+          if (opts.label !== null) layer.label = opts.label;
+          if (opts.name) layer.name = opts.name;
+          if (opts.levels) applyLevels(comp, layer, opts.levels);
+          __rbLayer(created, comp, layer);
+        }
+      } finally {
+        app.endUndoGroup();
+      }
+    }`;
+}
+
+/**
+ * JSX that imports a layer stack into the active comp in one undo group. The
+ * layers keep their offsets from the comp's current time and their gain as
+ * Audio Levels, with the first layer of the stack on top. With `levels`, each
+ * layer's gain is added to the preset's level.
+ */
+function importLayersJsx(layers: OnDemandLayer[], levels?: OnDemandLevels): string {
+  const list = jsxLiteral(
+    layers.map((l) => ({ path: l.path, offset: l.offsetSec, gain: l.gainDb }))
+  );
+  return `
+    var prj = app.project;
+    if (!prj) throw new Error("No project open");
+    var comp = prj.activeItem;
+    if (!comp || !(comp instanceof CompItem)) throw new Error("No active comp");
+    var layers = ${list};
+    var levels = ${jsxLiteral(levels ?? null)};
+${JSX_AUDIO_BIN}
+${JSX_APPLY_LEVELS}
+    var bin = audioBin();
+
+    var start = comp.time;
+    var failed = [];
+    var added = [];
+    app.beginUndoGroup('Add Audio Layers');
+    try {
+      // Added in reverse so the first layer of the stack ends up on top
+      for (var j = layers.length - 1; j >= 0; j--) {
+        var footage = null;
+        try { footage = prj.importFile(new ImportOptions(new File(layers[j].path))); } catch(_) {}
+        if (!footage) {
+          failed.push(layers[j].path);
+          continue;
+        }
+        created.itemIds.push(footage.id);
+        try { footage.parentFolder = bin; } catch(_) {}
+        var layer = comp.layers.add(footage);
+        try { layer.startTime = start + layers[j].offset; } catch(_) {}
+        try {
+          if (!levels && layers[j].gain !== 0) {
+            layer.property('ADBE Audio Group').property('ADBE Audio Levels').setValue([layers[j].gain, layers[j].gain]);
+          }
+        } catch(_) {}
+        added.push({ layer: layer, gain: layers[j].gain });
+        __rbLayer(created, comp, layer);
+      }
+      // Once the whole stack is in, so its layers don't duck under each other
+      for (var a = 0; levels && a < added.length; a++) {
+        try {
+          applyLevels(comp, added[a].layer, {
+            fadeInSec: levels.fadeInSec,
+            fadeOutSec: levels.fadeOutSec,
+            curve: levels.curve,
+            levelDb: levels.levelDb + added[a].gain,
+            ducking: levels.ducking
+          }, added.length);
+        } catch(_) {}
+      }
+    } finally {
+      app.endUndoGroup();
+    }
+    if (failed.length > 0) throw new Error("Failed to import " + failed.join(", "));`;
+}
+
+/**
+ * JSX that adds a layer at every marker of the active comp, or of its selected
+ * layer, whose comment matches `pattern` (a case-insensitive regular
+ * expression; every marker when empty). Consecutive markers cycle through the
+ * sounds. Importing and placing are one undo group.
+ */
+function importOnMarkersJsx(cmd: { sounds: OnDemandSound[]; markers: "comp" | "layer"; pattern?: string; levels?: OnDemandLevels }): string {
+  const sounds = jsxLiteral(
+    cmd.sounds.map((s) => ({ path: s.path, stretch: s.stretch && s.stretch !== 100 ? s.stretch : 100 }))
+  );
+  return `
+    var prj = app.project;
+    if (!prj) throw new Error("No project open");
+    var comp = prj.activeItem;
+    if (!comp || !(comp instanceof CompItem)) throw new Error("No active comp");
+    var sounds = ${sounds};
+    var levels = ${jsxLiteral(cmd.levels ?? null)};
+    if (sounds.length === 0) throw new Error("No sounds to place");
+    var pattern = ${jsxLiteral(cmd.pattern || "")};
+    var re = null;
+    if (pattern) {
+      try { re = new RegExp(pattern, 'i'); } catch(_) { throw new Error("Invalid marker pattern: " + pattern); }
+    }
+${JSX_AUDIO_BIN}
+${JSX_APPLY_LEVELS}
+
+    var markers;
+    var where;
+    ${
+      cmd.markers === "layer"
+        ? `if (comp.selectedLayers.length === 0) throw new Error("Select the layer whose markers to use");
+    markers = comp.selectedLayers[0].property('ADBE Marker');
+    where = 'layer "' + comp.selectedLayers[0].name + '"';`
+        : `if (!comp.markerProperty) throw new Error("This version of After Effects has no comp markers");
+    markers = comp.markerProperty;
+    where = 'comp "' + comp.name + '"';`
+    }
+    // Layer marker times are comp times too
+    var times = [];
+    for (var m = 1; m <= markers.numKeys; m++) {
+      if (!re || re.test(markers.keyValue(m).comment)) times.push(markers.keyTime(m));
+    }
+    if (times.length === 0) {
+      throw new Error(markers.numKeys === 0 ? "No markers on " + where : "No markers on " + where + " match " + pattern);
+    }
+
+    app.beginUndoGroup('Add Audio on Markers');
+    try {
+      var bin = audioBin();
+      var footage = [];
+      for (var s = 0; s < sounds.length; s++) {
+        var item = null;
+        try { item = prj.importFile(new ImportOptions(new File(sounds[s].path))); } catch(_) {}
+        if (!item) throw new Error("Failed to import " + sounds[s].path);
+        created.itemIds.push(item.id);
+        try { item.parentFolder = bin; } catch(_) {}
+        footage.push(item);
+      }
+      var placed = [];
+      for (var t = 0; t < times.length; t++) {
+        var k = t % sounds.length;
+        var layer = comp.layers.add(footage[k]);
+        if (sounds[k].stretch !== 100) {
+          try { layer.stretch = sounds[k].stretch; } catch(_) {}
+        }
+        layer.startTime = times[t];
+        placed.push(layer);
+        __rbLayer(created, comp, layer);
+      }
+      for (var p = 0; levels && p < placed.length; p++) applyLevels(comp, placed[p], levels, placed.length);
+    } finally {
+      app.endUndoGroup();
+    }`;
+}
+
+/**
+ * JSX that imports every file in one job and one undo group, laid out in the
+ * active comp; without one the files are only imported, except for the marker
+ * layout, which needs it. A failed file is reported and the batch goes on.
+ * Progress is written to `progressPath` as "done/total" after each file, and
+ * the batch stops once `cancelPath` exists.
+ */
+function importBatchJsx(
+  cmd: { files: OnDemandSound[]; layout: OnDemandBatchLayout; levels?: OnDemandLevels },
+  progressPath: string,
+  cancelPath: string
+): string {
+  const files = jsxLiteral(
+    cmd.files.map((f) => ({ path: f.path, stretch: f.stretch && f.stretch !== 100 ? f.stretch : 100 }))
+  );
+  const layout = jsxLiteral({ kind: cmd.layout.kind, gap: cmd.layout.kind === "sequential" ? Math.max(0, cmd.layout.gapSec) : 0 });
+  return `
+    var prj = app.project;
+    if (!prj) throw new Error("No project open");
+    var files = ${files};
+    var layout = ${layout};
+    var levels = ${jsxLiteral(cmd.levels ?? null)};
+    var comp = prj.activeItem instanceof CompItem ? prj.activeItem : null;
+${JSX_AUDIO_BIN}
+${JSX_APPLY_LEVELS}
+
+    var times = [];
+    if (layout.kind === 'markers') {
+      if (!comp) throw new Error("No active comp");
+      if (!comp.markerProperty) throw new Error("This version of After Effects has no comp markers");
+      for (var m = 1; m <= comp.markerProperty.numKeys; m++) times.push(comp.markerProperty.keyTime(m));
+      if (times.length === 0) throw new Error('No markers on comp "' + comp.name + '"');
+    }
+
+    var progressFile = new File(${jsxLiteral(progressPath)});
+    var cancelFile = new File(${jsxLiteral(cancelPath)});
+    function progress(done) {
+      try {
+        progressFile.open('w');
+        progressFile.write(done + '/' + files.length);
+        progressFile.close();
+      } catch(_) {}
+    }
+
+    created.files = [];
+    var placed = [];
+    var at = comp ? comp.time : 0;
+    app.beginUndoGroup('Import Audio Batch');
+    try {
+      var bin = audioBin();
+      for (var i = 0; i < files.length; i++) {
+        if (cancelFile.exists) {
+          created.cancelled = true;
+          break;
+        }
+        var entry = { path: files[i].path, ok: false };
+        created.files.push(entry);
+        try {
+          if (layout.kind === 'markers' && i >= times.length) throw new Error("More files than comp markers");
+          var footage = prj.importFile(new ImportOptions(new File(files[i].path)));
+          if (!footage) throw new Error("Failed to import file");
+          created.itemIds.push(footage.id);
+          try { footage.parentFolder = bin; } catch(_) {}
+          if (comp) {
+            var layer = comp.layers.add(footage);
+            if (files[i].stretch !== 100) {
+              try { layer.stretch = files[i].stretch; } catch(_) {}
+            }
+            layer.startTime = layout.kind === 'markers' ? times[i] : at;
+            if (layout.kind === 'sequential') at = layer.outPoint + layout.gap;
+            __rbLayer(created, comp, layer);
+            entry.layer = created.layers[created.layers.length - 1];
+            placed.push({ layer: layer, entry: entry });
+          }
+          entry.ok = true;
+        } catch(e) {
+          entry.error = String(e.message || e);
+        }
+        progress(i + 1);
+      }
+      // After every file is placed, so they don't duck under each other
+      for (var p = 0; levels && p < placed.length; p++) {
+        try {
+          applyLevels(comp, placed[p].layer, levels, placed.length);
+        } catch(e) {
+          placed[p].entry.error = "Imported, but levels failed: " + String(e.message || e);
+        }
+      }
+    } finally {
+      app.endUndoGroup();
+    }`;
+}
+
+/**
+ * Read the result a script wrote to `artifactPath`, polling until it appears
+ * or `deadlineMs` passes. Returns null on timeout.
+ */
+async function waitForArtifact(artifactPath: string, deadlineMs: number): Promise<OnDemandResult | null> {
+  const start = Date.now();
+  const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+  while (Date.now() - start < deadlineMs) {
+    try {
+      // Only the renamed file is complete; the .tmp one may still be being written
+      const txt = fs.readFileSync(artifactPath, "utf8");
+      const result = JSON.parse(txt);
+      
+      // Clean up
+      try {
+        fs.unlinkSync(artifactPath);
+      } catch { /* ignore */ }
+      
+      return result;
+    } catch {
+      await sleep(150);
+    }
+  }
+  return null;
+}
+
 /**
  * Execute a command in After Effects using the on-demand bridge
  * Updated to match the b-roll approach using aelistener.jsx
  */
-export async function runOnDemand(cmd: OnDemandCommand): Promise<OnDemandResult> {
+export async function runOnDemand(cmd: OnDemandCommand, options: OnDemandRunOptions = {}): Promise<OnDemandResult> {
   const isRunning = await isAERunning();
   if (!isRunning) {
     throw new Error("After Effects is not running. Please open After Effects first.");
@@ -367,6 +1042,8 @@ export async function runOnDemand(cmd: OnDemandCommand): Promise<OnDemandResult>
   
   const cmdPath = path.join(jobsDir, `rb_${requestId}.json`);
   const artifactPath = path.join(jobsDir, `rb_${requestId}.done.json`);
+  const progressPath = path.join(jobsDir, `rb_${requestId}.progress`);
+  const cancelPath = path.join(jobsDir, `rb_${requestId}.cancel`);
 
   const payload = {
     ...cmd,
@@ -378,80 +1055,75 @@ export async function runOnDemand(cmd: OnDemandCommand): Promise<OnDemandResult>
     const { spawn } = require('child_process');
     
     // Fast path: for direct JSX execution or import_audio converted to JSX
-    if (cmd.action === "run_jsx_text" || cmd.action === "run_jsx_file" || cmd.action === "import_audio") {
-      let jsxPath = "";
-      
+    if (cmd.action === "run_jsx_text" || cmd.action === "run_jsx_file" || cmd.action === "import_audio" || cmd.action === "import_layers" || cmd.action === "import_on_markers" || cmd.action === "import_batch") {
+      // Every script is wrapped so it reports back through the artifact
+      let body: string;
+      let codePath = "";
       if (cmd.action === "run_jsx_text") {
-        jsxPath = path.join(jobsDir, `rb_${requestId}_direct.jsx`);
-        fs.writeFileSync(jsxPath, cmd.code, { encoding: "utf8" });
+        codePath = path.join(jobsDir, `rb_${requestId}_code.jsx`);
+        fs.writeFileSync(codePath, cmd.code, { encoding: "utf8" });
+        body = `    $.evalFile(new File(${jsxLiteral(codePath)}));`;
       } else if (cmd.action === "run_jsx_file") {
-        jsxPath = cmd.path;
+        body = `    $.evalFile(new File(${jsxLiteral(cmd.path)}));`;
       } else if (cmd.action === "import_audio") {
-        // Convert import_audio to JSX code (same as b-roll approach)
-        const escapedPath = cmd.path.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
-        const jsxCode = `
-(function() {
-  try {
-    var prj = app.project;
-    if (!prj) throw new Error("No project open");
-    
-    var io = new ImportOptions(new File('${escapedPath}'));
-    var footage = prj.importFile(io);
-    if (!footage) throw new Error("Failed to import file");
-    
-    // Create or find Audio bin
-    var bin = null;
-    for (var i = 1; i <= prj.items.length; i++) {
-      var it = prj.items[i];
-      if (it instanceof FolderItem && it.name === 'Audio') {
-        bin = it;
-        break;
-      }
-    }
-    if (!bin) {
-      bin = prj.items.addFolder('Audio');
-    }
-    try { footage.parentFolder = bin; } catch(_) {}
-    
-    // Add to active comp if one is open
-    var comp = prj.activeItem;
-    if (comp && comp instanceof CompItem) {
-      app.beginUndoGroup('Add Audio');
-      var layer = comp.layers.add(footage);
-      try {
-        layer.startTime = comp.time;
-      } catch(_) {}
-      app.endUndoGroup();
-    }
-  } catch(e) {
-    // Silent fail - logged elsewhere
-  }
-})();
-`;
-        jsxPath = path.join(jobsDir, `rb_${requestId}_direct.jsx`);
-        fs.writeFileSync(jsxPath, jsxCode, { encoding: "utf8" });
+        body = importAudioJsx(cmd);
+      } else if (cmd.action === "import_layers") {
+        body = importLayersJsx(cmd.layers, cmd.levels);
+      } else if (cmd.action === "import_on_markers") {
+        body = importOnMarkersJsx(cmd);
+      } else {
+        body = importBatchJsx(cmd, progressPath, cancelPath);
       }
+      const jsxPath = path.join(jobsDir, `rb_${requestId}_direct.jsx`);
+      fs.writeFileSync(jsxPath, withResultArtifact(body, cmd.action, requestId, artifactPath), { encoding: "utf8" });
 
       // Try multiple AE versions
+      const doScript = `DoScriptFile POSIX file "${jsxPath.replace(/"/g, '\\"')}"`;
       const appleScript = `
         tell application "After Effects"
           activate
-          DoScriptFile POSIX file "${jsxPath.replace(/"/g, '\\"')}"
+          ${cmd.action === "import_batch" ? `with timeout of ${BATCH_APPLE_EVENT_TIMEOUT_SEC} seconds
+            ${doScript}
+          end timeout` : doScript}
         end tell
       `;
-      
-      await new Promise<void>((resolve, reject) => {
-        const p = spawn("/usr/bin/osascript", ["-e", appleScript]);
-        p.on("close", (code: number) => (code === 0 ? resolve() : reject(new Error(`AppleScript failed: ${code}`))));
-        p.on("error", reject);
-      });
-      
-      // Cleanup JSX file
-      if (cmd.action !== "run_jsx_file") {
+
+      const requestCancel = () => {
+        try { fs.writeFileSync(cancelPath, ""); } catch { /* ignore */ }
+      };
+      if (options.signal?.aborted) requestCancel();
+      options.signal?.addEventListener("abort", requestCancel);
+      const { onProgress } = options;
+      const progressTimer = onProgress
+        ? setInterval(() => {
+            try {
+              const [done, total] = fs.readFileSync(progressPath, "utf8").split("/").map(Number);
+              if (Number.isFinite(done) && Number.isFinite(total)) onProgress(done, total);
+            } catch { /* not written yet */ }
+          }, PROGRESS_POLL_MS)
+        : null;
+
+      try {
+        await new Promise<void>((resolve, reject) => {
+          const p = spawn("/usr/bin/osascript", ["-e", appleScript]);
+          p.on("close", (code: number) => (code === 0 ? resolve() : reject(new Error(`AppleScript failed: ${code}`))));
+          p.on("error", reject);
+        });
+        
+        const result = await waitForArtifact(artifactPath, DIRECT_RESULT_TIMEOUT_MS);
+        if (!result) throw new Error("Timed out waiting for After Effects");
+        return result;
+      } finally {
+        if (progressTimer) clearInterval(progressTimer);
+        options.signal?.removeEventListener("abort", requestCancel);
+        // Cleanup JSX files
         try { fs.unlinkSync(jsxPath); } catch { /* ignore */ }
+        try { fs.unlinkSync(progressPath); } catch { /* ignore */ }
+        try { fs.unlinkSync(cancelPath); } catch { /* ignore */ }
+        if (codePath) {
+          try { fs.unlinkSync(codePath); } catch { /* ignore */ }
+        }
       }
-      
-      return { ok: true, result: { requestId, operation: "direct", elapsedMs: 0 } };
     }
 
     // Fallback: use the inbox approach with aelistener.jsx
@@ -502,40 +1174,9 @@ export async function runOnDemand(cmd: OnDemandCommand): Promise<OnDemandResult>
     });
 
     // Wait for artifact with timeout
-    const start = Date.now();
-    const deadlineMs = 5000;
-    const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
-
-    while (Date.now() - start < deadlineMs) {
-      try {
-        let txt: string;
-        try {
-          txt = fs.readFileSync(artifactPath, "utf8");
-        } catch {
-          const tmpPath = artifactPath + ".tmp";
-          try {
-            txt = fs.readFileSync(tmpPath, "utf8");
-          } catch {
-            throw new Error("Artifact not found");
-          }
-        }
-        
-        const result = JSON.parse(txt);
-        
-        // Clean up
-        try {
-          fs.unlinkSync(cmdPath);
-          fs.unlinkSync(artifactPath);
-          try { fs.unlinkSync(artifactPath + ".tmp"); } catch { /* ignore */ }
-        } catch { /* ignore */ }
-        
-        return result;
-      } catch {
-        await sleep(150);
-      }
-    }
-
+    const result = await waitForArtifact(artifactPath, 5000);
     try { fs.unlinkSync(cmdPath); } catch { /* ignore */ }
+    if (result) return result;
     throw new Error("Timed out waiting for After Effects");
     
   } catch (error) {
@@ -1,4 +1,4 @@
-import { Action, ActionPanel, Clipboard, Icon, List, LocalStorage, Toast, getPreferenceValues, showToast, closeMainWindow, PopToRootType } from "@raycast/api";
+import { Action, ActionPanel, Clipboard, Icon, List, LocalStorage, Toast, getPreferenceValues, showHUD, showToast, closeMainWindow, PopToRootType, environment, useNavigation } from "@raycast/api";
 import { useEffect, useMemo, useRef, useState } from "react";
 import fs from "fs";
 import path from "path";
@@ -10,20 +10,116 @@ import {
   getLogFilePath,
   nowIso,
   isAfterEffectsRunning,
+  getAEProjectPath,
+  OnDemandBatchLayout,
+  OnDemandPlacement,
+  OnDemandSound,
 } from "./bridge-utils";
+import {
+  AudioMetadata,
+  readAudioMetadata,
+  formatDuration,
+  formatSampleRate,
+  formatChannels,
+  formatBitDepth,
+} from "./audio-metadata";
+import { getWaveformImage } from "./waveform";
+import {
+  LibraryIndex,
+  IndexedFile,
+  FileAnalysis,
+  loadLibraryIndex,
+  saveLibraryIndex,
+  reconcileLibraryIndex,
+  indexedFiles,
+  updateIndexedFile,
+  ensureContentHash,
+  ensureFullHash,
+} from "./library-index";
+import { watchLibrary } from "./library-watcher";
+import { LibraryRoot, parseLibraryRoots, findRootForPath } from "./library-roots";
+import { AudioItem, ROOT_CATEGORY, topLevelCategoryName, isInFolder, allFolderPaths } from "./audio-item";
+import { FolderBrowser } from "./folder-browser";
+import { TagMap, loadTags, writeTags, allTags } from "./tags-store";
+import { TagForm } from "./tag-form";
+import { parseSearchQuery, applySearchQuery } from "./search-query";
+import {
+  PortableRef,
+  FavoriteOp,
+  readFavoritesFile,
+  writeFavoritesFile,
+  completeFullHashes,
+  favoriteOp,
+  mergeFavoriteOps,
+  toPortableRef,
+  resolvePortableRef,
+  migrateLegacyPath,
+} from "./favorites-store";
+import { Playback, selectBackend, startPlayback, stopAllPlayback } from "./playback";
+import {
+  PreviewSettings,
+  PreviewOffset,
+  PREVIEW_SETTINGS_KEY,
+  DEFAULT_PREVIEW_SETTINGS,
+  PREVIEW_LENGTHS,
+  PREVIEW_VOLUMES,
+  PREVIEW_OFFSET_PERCENTS,
+  LOUDNESS_TARGETS,
+  parsePreviewSettings,
+  nudgeOffset,
+  nudgeVolume,
+  resolveOffsetSec,
+  describeOffset,
+  describeLength,
+  describeVolume,
+  describeLoudnessTarget,
+} from "./preview-settings";
+import { measureLeadingSilence } from "./silence";
+import { analyzeLoudness, loudnessMatchGainDb, formatLufs } from "./loudness";
+import { MIN_MUSIC_SEC, analyzeMusic, formatBpm, formatKey } from "./music-analysis";
+import { extractFeatures } from "./features";
+import { SimilarSounds } from "./similar-sounds";
+import { AuditionSummary } from "./audition-summary";
+import { computeFingerprint } from "./fingerprint";
+import { mergeDuplicateFavorites, mergeDuplicateTags } from "./duplicates";
+import { DuplicateFinder } from "./duplicate-finder";
+import {
+  LAYER_GAINS,
+  LAYER_OFFSETS,
+  OFFSET_NUDGE_SEC,
+  StackLayer,
+  StackPlayback,
+  addLayer,
+  formatGain,
+  formatOffset,
+  playLayers,
+  removeLayer,
+  updateLayer,
+} from "./layer-stack";
+import {
+  PLAYBACK_RATES,
+  describeRate,
+  describeTreatment,
+  isTreated,
+  layerStretch,
+  needsRenderedCopy,
+  renderTreatedCopy,
+  treatedCopyPath,
+} from "./treatment";
+import { CONVERSION_FOLDER, ensureImportable } from "./transcode";
+import { ImportOptionsForm } from "./import-options-form";
+import { MarkerImportForm, MarkerImportOptions } from "./marker-import-form";
+import { BatchImportEntry, BatchImportReport, describeBatchLayout } from "./batch-import-report";
+import { ImportPreset, describeImportPreset, importPresetsPath, loadImportPresets } from "./import-presets";
 
 interface Preferences {
-  audioFolder: string;
+  audioFolder?: string;
+  audioFolderLabel?: string;
+  additionalRoots?: string;
+  playerBackend?: string;
   aeBinaryPath?: string;
 }
 
-interface AudioItem {
-  path: string;
-  name: string;
-  category: string; // derived from subfolder path relative to root
-  size: number;
-}
-
 const audioExtensions = [
   ".mp3",
   ".wav",
@@ -36,108 +132,168 @@ const audioExtensions = [
   ".caf"
 ];
 
+// Top-level folders per library root, for the category dropdown
+interface RootCategories {
+  root: LibraryRoot;
+  online: boolean;
+  folders: string[];
+}
+
+// Pause between files in an audition pass
+const AUDITION_GAP_MS = 1000;
+
+// Gaps offered when batch importing files end to end
+const BATCH_GAPS_SEC = [0.5, 1, 2];
+
+// An audition pass steps through a snapshot of the visible list
+interface AuditionState {
+  queue: string[];
+  position: number;
+  kept: string[];
+  skipped: number;
+}
+
+// List order when not shuffled; the loudness orders put files that haven't
+// been measured yet at the end
+type SortOrder = "path" | "loudest" | "quietest";
+const SORT_ORDERS: { value: SortOrder; title: string }[] = [
+  { value: "path", title: "Folder and Name" },
+  { value: "loudest", title: "Loudest First" },
+  { value: "quietest", title: "Quietest First" },
+];
+
+// Dropdown values: "All", "Favorites", "tag:<name>", "<root>::*" for a whole
+// root and "<root>::<folder>" for a folder at any depth in it ("Root" for files
+// directly in the root)
+const ROOT_SEPARATOR = "::";
+const WHOLE_ROOT = "*";
+const TAG_PREFIX = "tag:";
+
+function categoryValue(rootId: string, folder: string = WHOLE_ROOT): string {
+  return `${rootId}${ROOT_SEPARATOR}${folder}`;
+}
+
+function parseCategoryValue(value: string): { rootId: string; folder: string } | null {
+  const idx = value.lastIndexOf(ROOT_SEPARATOR);
+  if (idx <= 0) return null;
+  return { rootId: value.slice(0, idx), folder: value.slice(idx + ROOT_SEPARATOR.length) };
+}
+
 export default function Command() {
-  const { audioFolder } = getPreferenceValues<Preferences>();
+  const { audioFolder, audioFolderLabel, additionalRoots, playerBackend } = getPreferenceValues<Preferences>();
+  const { push } = useNavigation();
+  const roots = useMemo(
+    () => parseLibraryRoots({ audioFolder, audioFolderLabel, additionalRoots }),
+    [audioFolder, audioFolderLabel, additionalRoots]
+  );
   const [items, setItems] = useState<AudioItem[]>([]);
-  const [categories, setCategories] = useState<string[]>([]);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const [categories, setCategories] = useState<RootCategories[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string>("All");
+  const [searchText, setSearchText] = useState("");
+  const [includeSubfolders, setIncludeSubfolders] = useState(true);
   const [isLoading, setIsLoading] = useState(true);
   const [favorites, setFavorites] = useState<string[]>([]);
-  // Repo/cloud-backed favorites file (visible): audio-files-favorites.json
-  function getFavoritesFilePath(): string | null {
-    try {
-      if (!audioFolder) return null;
-      return path.join(audioFolder, "audio-files-favorites.json");
-    } catch {}
-    return null;
-  }
-  // Legacy hidden filename support (migration)
-  function getLegacyHiddenFavoritesFilePath(): string | null {
-    try {
-      if (!audioFolder) return null;
-      return path.join(audioFolder, ".audio-files-favorites.json");
-    } catch {}
-    return null;
-  }
-  function readFavoritesFile(): string[] | null {
-    try {
-      const fp = getFavoritesFilePath();
-      if (fp && fs.existsSync(fp)) {
-        const content = fs.readFileSync(fp, "utf8");
-        const arr = JSON.parse(content);
-        return Array.isArray(arr) ? arr.filter((v: unknown) => typeof v === "string") : null;
-      }
-      // Fallback to legacy hidden file
-      const legacy = getLegacyHiddenFavoritesFilePath();
-      if (legacy && fs.existsSync(legacy)) {
-        const content = fs.readFileSync(legacy, "utf8");
-        const arr = JSON.parse(content);
-        return Array.isArray(arr) ? arr.filter((v: unknown) => typeof v === "string") : null;
-      }
-    } catch {}
-    return null;
-  }
-  function writeFavoritesFile(list: string[]) {
-    try {
-      const fp = getFavoritesFilePath();
-      if (!fp) return;
-      fs.writeFileSync(fp, JSON.stringify(list, null, 2), "utf8");
-      // Clean up legacy hidden file if present
-      try {
-        const legacy = getLegacyHiddenFavoritesFilePath();
-        if (legacy && fs.existsSync(legacy)) fs.rmSync(legacy, { force: true });
-      } catch {}
-    } catch {}
-  }
+  // Pushed views keep the item actions they were created with, so actions
+  // read the state they show or act on through refs
+  const favoritesRef = useRef(favorites);
+  favoritesRef.current = favorites;
+  // Tags per absolute path, stored in audio-files-tags.json in each root
+  const [tags, setTags] = useState<TagMap>({});
+  const tagsRef = useRef(tags);
+  tagsRef.current = tags;
   const [recentlyUsed, setRecentlyUsed] = useState<string[]>([]);
+  const recentlyUsedRef = useRef(recentlyUsed);
+  recentlyUsedRef.current = recentlyUsed;
   const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Set when the selected file is moved on disk so the list follows it
+  const [selectionOverride, setSelectionOverride] = useState<string | undefined>(undefined);
   const [autoplayEnabled, setAutoplayEnabled] = useState(false);
+  const autoplayEnabledRef = useRef(autoplayEnabled);
+  autoplayEnabledRef.current = autoplayEnabled;
   const [currentlyPlaying, setCurrentlyPlaying] = useState<string | null>(null);
-  const playerRef = useRef<any>(null);
+  const currentlyPlayingRef = useRef(currentlyPlaying);
+  currentlyPlayingRef.current = currentlyPlaying;
+  const playerRef = useRef<Playback | null>(null);
   const stopTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Per-root state, keyed by root id
+  const indexesRef = useRef(new Map<string, LibraryIndex>());
+  const saveIndexTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const stopWatchingRef = useRef(new Map<string, () => void>());
+  const reconcilingRef = useRef(new Set<string>());
+  const pendingDirtyRef = useRef(new Map<string, Set<string>>());
+  const selectedIdRef = useRef<string | null>(null);
+  // Recents whose file can't be found right now (root offline, not synced
+  // yet); kept so saving doesn't drop them
+  const unresolvedRecentsRef = useRef<PortableRef[]>([]);
+  selectedIdRef.current = selectedId;
   const [shuffleSeed, setShuffleSeed] = useState<number | null>(null);
+  const shuffleSeedRef = useRef(shuffleSeed);
+  shuffleSeedRef.current = shuffleSeed;
+  const [previewSettings, setPreviewSettings] = useState<PreviewSettings>(DEFAULT_PREVIEW_SETTINGS);
+  // Playback is started from timers and effects, so read settings through a ref
+  const previewSettingsRef = useRef(previewSettings);
+  previewSettingsRef.current = previewSettings;
+  // Bumped on every play request so a slow start can't replace a newer one
+  const playRequestRef = useRef(0);
+  const seekWarningShownRef = useRef(false);
+  const [audition, setAudition] = useState<AuditionState | null>(null);
+  // Timers and player callbacks drive the pass, so it also lives in a ref
+  const auditionRef = useRef<AuditionState | null>(null);
+  const auditionTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Bumped whenever the current audition step is replaced or ended
+  const auditionStepRef = useRef(0);
+  const [showDetail, setShowDetail] = useState(false);
+  const showDetailRef = useRef(showDetail);
+  showDetailRef.current = showDetail;
+  // Waveform SVG path per audio file; null when the file can't be decoded,
+  // false when drawing failed and is retried on the next selection
+  const [waveforms, setWaveforms] = useState<Record<string, string | null | false>>({});
+  const [sortOrder, setSortOrder] = useState<SortOrder>("path");
+  const sortOrderRef = useRef(sortOrder);
+  sortOrderRef.current = sortOrder;
+  // Files waiting for loudness, tempo and key analysis, measured one at a time
+  const analysisQueueRef = useRef(new Set<string>());
+  const analysingRef = useRef(false);
+  const unmountedRef = useRef(false);
+  // Sounds auditioned together; played separately from the single preview
+  const [layerStack, setLayerStack] = useState<StackLayer[]>([]);
+  const layerStackRef = useRef<StackLayer[]>([]);
+  const stackPlaybackRef = useRef<StackPlayback | null>(null);
+  const [stackPlaying, setStackPlaying] = useState(false);
+  const stackPlayingRef = useRef(stackPlaying);
+  stackPlayingRef.current = stackPlaying;
+  const [importPresets, setImportPresets] = useState<ImportPreset[]>([]);
+  const importPresetsRef = useRef(importPresets);
+  importPresetsRef.current = importPresets;
+  // Applied by imports that don't offer a choice of preset, and picked first in the forms that do
+  const [defaultPresetName, setDefaultPresetName] = useState<string | null>(null);
+  const defaultPresetNameRef = useRef(defaultPresetName);
+  defaultPresetNameRef.current = defaultPresetName;
 
   useEffect(() => {
-    loadFavorites();
-    loadRecentlyUsed();
     loadAutoplayPreference();
+    loadPreviewSettings();
+    loadPresets();
+    loadDefaultImportPreset();
+    loadShowDetailPreference();
+    loadIncludeSubfoldersPreference();
+    loadSortOrder();
   }, []);
 
   useEffect(() => {
     loadItems();
-  }, [audioFolder]);
-
-  function recursivelyFindAudio(dir: string, baseDir: string): AudioItem[] {
-    const found: AudioItem[] = [];
-    try {
-      const entries = fs.readdirSync(dir);
-      for (const entry of entries) {
-        const full = path.join(dir, entry);
-        const stat = fs.statSync(full);
-        if (stat.isDirectory()) {
-          found.push(...recursivelyFindAudio(full, baseDir));
-        } else if (stat.isFile()) {
-          const ext = path.extname(entry).toLowerCase();
-          if (audioExtensions.includes(ext)) {
-            const relative = path.relative(baseDir, dir);
-            const category = relative === "" ? "Root" : relative;
-            found.push({ path: full, name: entry, category, size: stat.size });
-          }
-        }
-      }
-    } catch (error) {
-      console.error("Error reading directory", dir, error);
-    }
-    return found;
-  }
+  }, [roots]);
 
-
-  // Derive the top-level category name from a relative subfolder path
-  function topLevelCategoryName(category: string): string {
-    if (!category || category === "Root") return "Root";
-    const idx = category.indexOf(path.sep);
-    return idx === -1 ? category : category.slice(0, idx);
-  }
+  // Offline roots come back when the drive is mounted again
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const offline = categories.filter((c) => !c.online);
+      if (offline.length > 0 && offline.some((c) => fs.existsSync(c.root.path))) loadItems();
+    }, 30000);
+    return () => clearInterval(timer);
+  }, [categories]);
 
 
 
@@ -170,7 +326,7 @@ export default function Command() {
 
 
   // On-demand bridge mode - direct execution in After Effects (no spinner, close window immediately)
-  async function sendViaBridge(filePath: string) {
+  async function sendViaBridge(filePath: string, placement?: OnDemandPlacement, preset?: ImportPreset) {
     try {
       const running = await isAfterEffectsRunning();
       if (!running) {
@@ -178,23 +334,79 @@ export default function Command() {
         return;
       }
 
+      // Render and convert before closing the window so the toasts stay visible
+      const source = await importSourceFor(filePath, await conversionDir());
+      if (!source) return;
+
       await closeMainWindow({ popToRootType: PopToRootType.Suspended });
 
       const result = await runOnDemand({
         action: "import_audio",
-        path: filePath,
-        requireActiveComp: true
+        path: source.path,
+        // Other targets fail in AE when their comp can't be found
+        requireActiveComp: !placement?.comp || placement.comp.by === "active",
+        stretch: source.stretch,
+        placement,
+        levels: preset
       });
 
       if (result.ok) {
-        appendLog([`On-demand bridge imported audio: ${path.basename(filePath)}`, `elapsedMs: ${result.result?.elapsedMs}`], "audio-files");
+        const treatment = describeTreatment(previewSettingsRef.current);
+        const layers = result.result?.layers ?? [];
+        appendLog([
+          `On-demand bridge imported audio: ${path.basename(filePath)}${treatment ? ` (${treatment})` : ""}${preset ? ` with preset ${preset.name}: ${describeImportPreset(preset)}` : ""}`,
+          layers.length > 0 ? layers.map((l) => `layer ${l.index} in comp ${l.compId}`).join(", ") : "project only, no active comp",
+          `elapsedMs: ${result.result?.elapsedMs}`,
+        ], "audio-files");
         await addToRecentlyUsed(filePath);
       } else {
-        appendLog([`On-demand bridge failed: ${path.basename(filePath)}`, `error: ${result.error}`], "audio-files");
+        appendLog([`On-demand bridge failed: ${path.basename(filePath)}`, `error: ${result.error}`, `stack: ${result.stack ?? ""}`], "audio-files");
+        await showHUD(`Import failed: ${result.error}`);
       }
     } catch (e: any) {
       appendLog([`sendViaBridge error: ${e?.message || e}`], "audio-files");
-      // No toast here since the window may already be closed
+      // A HUD rather than a toast, since the window may already be closed
+      await showHUD(`Import failed: ${e?.message || e}`);
+    }
+  }
+
+  // Place one or more sounds on the matching markers of the active comp or its selected layer
+  async function placeOnMarkers(options: MarkerImportOptions) {
+    try {
+      const running = await isAfterEffectsRunning();
+      if (!running) {
+        await showToast({ style: Toast.Style.Failure, title: "Open After Effects first", message: "Open a comp with markers, then retry." });
+        return;
+      }
+
+      const dir = await conversionDir();
+      const sounds = [];
+      for (const filePath of options.sounds) {
+        const source = await importSourceFor(filePath, dir);
+        if (!source) return;
+        sounds.push(source);
+      }
+
+      await closeMainWindow({ popToRootType: PopToRootType.Suspended });
+
+      const result = await runOnDemand({ action: "import_on_markers", sounds, markers: options.markers, pattern: options.pattern || undefined, levels: options.preset });
+      const names = options.sounds.map((p) => path.basename(p)).join(", ");
+      if (result.ok) {
+        appendLog([
+          `On-demand bridge placed ${names} on ${options.markers} markers${options.pattern ? ` matching ${options.pattern}` : ""}${options.preset ? ` with preset ${options.preset.name}` : ""}`,
+          `layers placed: ${result.result?.placed ?? 0}`,
+          `elapsedMs: ${result.result?.elapsedMs}`,
+        ], "audio-files");
+        for (const filePath of options.sounds) {
+          await addToRecentlyUsed(filePath);
+        }
+      } else {
+        appendLog([`On-demand bridge failed to place ${names} on markers`, `error: ${result.error}`, `stack: ${result.stack ?? ""}`], "audio-files");
+        await showHUD(`Placing on markers failed: ${result.error}`);
+      }
+    } catch (e: any) {
+      appendLog([`placeOnMarkers error: ${e?.message || e}`], "audio-files");
+      await showHUD(`Placing on markers failed: ${e?.message || e}`);
     }
   }
 
@@ -248,7 +460,7 @@ export default function Command() {
       // New primary: if AE is running, queue via Bridge so we target the existing session
       const running = await isAeProcessRunning();
       if (running) {
-        await sendViaBridge(filePath);
+        await sendViaBridge(filePath, undefined, defaultImportPreset());
         toast.title = "Queued for After Effects";
         toast.message = baseName;
         toast.style = Toast.Style.Success;
@@ -414,10 +626,106 @@ export default function Command() {
     }
   }
 
+  function isAudioFileName(name: string): boolean {
+    return audioExtensions.includes(path.extname(name).toLowerCase());
+  }
+
+  function toAudioItem(f: IndexedFile, root: LibraryRoot): AudioItem {
+    return {
+      path: f.path,
+      name: f.name,
+      root: root.id,
+      category: f.category,
+      size: f.size,
+      mtimeMs: f.mtimeMs,
+      metadata: f.metadata,
+      analysis: f.analysis,
+    };
+  }
+
+  function indexForPath(filePath: string): LibraryIndex | undefined {
+    const root = findRootForPath(roots, filePath);
+    return root ? indexesRef.current.get(root.id) : undefined;
+  }
+
+  // Coalesce index writes; derived data trickles in one batch at a time
+  function scheduleIndexSave() {
+    if (saveIndexTimerRef.current) clearTimeout(saveIndexTimerRef.current);
+    saveIndexTimerRef.current = setTimeout(() => {
+      saveIndexTimerRef.current = null;
+      saveAllIndexes();
+    }, 1000);
+  }
+
+  function saveAllIndexes() {
+    for (const index of indexesRef.current.values()) {
+      saveLibraryIndex(index).catch((e) => console.error("Failed to save library index", e));
+    }
+  }
+
+  function collectItems(): AudioItem[] {
+    const all: AudioItem[] = [];
+    const seen = new Set<string>();
+    for (const root of roots) {
+      const index = indexesRef.current.get(root.id);
+      if (!index) continue;
+      const own = indexedFiles(index)
+        // With nested roots a file belongs to the most specific one
+        .filter((f) => findRootForPath(roots, f.path)?.id === root.id && !seen.has(f.path))
+        .map((f) => toAudioItem(f, root))
+        .sort((a, b) => a.path.localeCompare(b.path));
+      own.forEach((it) => seen.add(it.path));
+      all.push(...own);
+    }
+    return all;
+  }
+
+  async function applyIndexes(online: Set<string>) {
+    const all = collectItems();
+    setItems(all);
+    const cats: RootCategories[] = roots.map((root) => ({
+      root,
+      online: online.has(root.id),
+      folders: [...new Set(all.filter((i) => i.root === root.id).map((i) => topLevelCategoryName(i.category)))].sort(),
+    }));
+    setCategories(cats);
+    const values = new Set(["All", "Favorites"]);
+    cats.forEach((c) => {
+      values.add(categoryValue(c.root.id));
+      values.add(categoryValue(c.root.id, ROOT_CATEGORY));
+      allFolderPaths(all.filter((i) => i.root === c.root.id)).forEach((f) => values.add(categoryValue(c.root.id, f)));
+    });
+
+    // Restore last selected category if available and valid
+    try {
+      const stored = await LocalStorage.getItem("audioFilesSelectedCategory");
+      // Values saved before multiple roots were supported name a folder in the first root
+      const migrated =
+        typeof stored === "string" && roots.length > 0 && !values.has(stored)
+          ? categoryValue(roots[0].id, stored)
+          : stored;
+      if (typeof migrated === "string" && (values.has(migrated) || migrated.startsWith(TAG_PREFIX))) {
+        setSelectedCategory(migrated);
+      } else {
+        setSelectedCategory("All");
+      }
+    } catch {
+      setSelectedCategory("All");
+    }
+    return all;
+  }
+
+  function onlineRootIds(): Set<string> {
+    return new Set(indexesRef.current.keys());
+  }
+
   async function loadItems() {
     try {
       setIsLoading(true);
-      if (!audioFolder || !fs.existsSync(audioFolder)) {
+      stopWatchingRef.current.forEach((stop) => stop());
+      stopWatchingRef.current.clear();
+      indexesRef.current.clear();
+      if (roots.length === 0) {
         await showToast({
           style: Toast.Style.Failure,
           title: "Invalid Audio Folder",
@@ -428,25 +736,58 @@ export default function Command() {
         return;
       }
 
-      const all = recursivelyFindAudio(audioFolder, audioFolder);
-      setItems(all);
-      const uniqueTop = [...new Set(all.map((i) => topLevelCategoryName(i.category)))].sort();
-      const cats = ["All", "Favorites", ...uniqueTop];
-      setCategories(cats);
+      // Unmounted or missing roots are shown as offline rather than failing the list
+      const online = new Set<string>();
+      await Promise.all(
+        roots.map(async (root) => {
+          try {
+            const stat = await fs.promises.stat(root.path);
+            if (!stat.isDirectory()) return;
+          } catch {
+            return;
+          }
+          online.add(root.id);
+          indexesRef.current.set(root.id, await loadLibraryIndex(root.path));
+        })
+      );
+      updateTags(loadTags(roots.filter((r) => online.has(r.id))));
 
-      // Restore last selected category if available and valid
-      try {
-        const stored = await LocalStorage.getItem("audioFilesSelectedCategory");
-        if (typeof stored === "string" && cats.includes(stored)) {
-          setSelectedCategory(stored);
-        } else {
-          setSelectedCategory("All");
-        }
-      } catch {
-        setSelectedCategory("All");
+      // Show the cached library right away, then reconcile in the background
+      const hasCache = [...indexesRef.current.values()].some((index) => index.updatedAt > 0);
+      if (hasCache) {
+        await applyIndexes(online);
+        setIsLoading(false);
+      }
+
+      let changed = !hasCache;
+      const moved: { from: string; to: string }[] = [];
+      for (const root of roots) {
+        const index = indexesRef.current.get(root.id);
+        if (!index) continue;
+        const result = await reconcileLibraryIndex(index, isAudioFileName);
+        if (result.changed) changed = true;
+        moved.push(...result.moved);
+      }
+      const all = changed ? await applyIndexes(online) : collectItems();
+      // Favorites and recents are resolved against the index (by path, then content hash).
+      // Moves are followed after loading them, so favorites kept only on this Mac move too.
+      await loadFavorites();
+      await loadRecentlyUsed();
+      if (moved.length > 0) await remapMovedPaths(moved);
+      scheduleIndexSave();
+      loadMetadata(all).then(() => queueAnalysis(all));
+      for (const root of roots) {
+        if (online.has(root.id)) startWatching(root);
       }
 
-      if (all.length === 0) {
+      const offline = roots.filter((r) => !online.has(r.id));
+      if (offline.length > 0) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: offline.length === 1 ? `${offline[0].label} is offline` : `${offline.length} libraries are offline`,
+          message: offline.map((r) => r.path).join(", "),
+        });
+      } else if (all.length === 0) {
         await showToast({ style: Toast.Style.Failure, title: "No Audio Found", message: "No supported audio files in folder" });
       }
     } catch (error) {
@@ -459,6 +800,207 @@ export default function Command() {
     }
   }
 
+  function startWatching(root: LibraryRoot) {
+    stopWatchingRef.current.get(root.id)?.();
+    stopWatchingRef.current.set(
+      root.id,
+      watchLibrary(root.path, (dirtyDirs) => {
+        handleLibraryChange(root, dirtyDirs);
+      })
+    );
+  }
+
+  // Reconcile the dirty directories; changes that arrive while a pass is
+  // running are merged and handled in one follow-up pass.
+  async function handleLibraryChange(root: LibraryRoot, dirtyDirs: Set<string>) {
+    if (reconcilingRef.current.has(root.id)) {
+      const pending = pendingDirtyRef.current.get(root.id) ?? new Set<string>();
+      dirtyDirs.forEach((d) => pending.add(d));
+      pendingDirtyRef.current.set(root.id, pending);
+      return;
+    }
+    const index = indexesRef.current.get(root.id);
+    if (!index) return;
+    reconcilingRef.current.add(root.id);
+    try {
+      const result = await reconcileLibraryIndex(index, isAudioFileName, { dirtyDirs });
+      if (result.changed) {
+        const all = await applyIndexes(onlineRootIds());
+        if (result.moved.length > 0) await remapMovedPaths(result.moved);
+        scheduleIndexSave();
+        const fresh = new Set([...result.added, ...result.modified]);
+        const freshItems = all.filter((it) => fresh.has(it.path));
+        loadMetadata(freshItems).then(() => queueAnalysis(freshItems));
+      }
+    } catch (e) {
+      console.error("Failed to apply library changes", e);
+    } finally {
+      reconcilingRef.current.delete(root.id);
+    }
+    const pending = pendingDirtyRef.current.get(root.id);
+    pendingDirtyRef.current.delete(root.id);
+    if (pending) await handleLibraryChange(root, pending);
+  }
+
+  // Follow files that were renamed or moved: favorites, tags, recents and selection
+  async function remapMovedPaths(moved: { from: string; to: string }[]) {
+    const map = new Map(moved.map((m) => [m.from, m.to]));
+    const remap = (list: string[]) => list.map((p) => map.get(p) ?? p);
+    const movedFavorites = favoritesRef.current.filter((p) => map.has(p));
+    if (movedFavorites.length > 0) {
+      const next = remap(favoritesRef.current);
+      updateFavorites(next);
+      await LocalStorage.setItem("favoriteAudioFiles", JSON.stringify(next));
+      await recordFavoriteChanges(
+        movedFavorites.flatMap((p) => [
+          { path: p, favorite: false },
+          { path: map.get(p) as string, favorite: true },
+        ])
+      );
+    }
+    const movedTags = moved.filter((m) => m.from in tagsRef.current);
+    if (movedTags.length > 0) {
+      const next = Object.fromEntries(Object.entries(tagsRef.current).map(([p, list]) => [map.get(p) ?? p, list]));
+      updateTags(next);
+      writeTags(roots, next, movedTags.flatMap((m) => [m.from, m.to]));
+    }
+    if (recentlyUsedRef.current.some((p) => map.has(p))) {
+      const next = remap(recentlyUsedRef.current);
+      updateRecentlyUsed(next);
+      await saveRecentlyUsed(next);
+    }
+    const selected = selectedIdRef.current;
+    if (selected && map.has(selected)) {
+      setSelectionOverride(map.get(selected));
+    }
+  }
+
+  // Read headers in the background and merge results into items in batches.
+  // Files whose metadata is already cached in the index are skipped.
+  async function loadMetadata(list: AudioItem[]) {
+    const pending = list.filter((it) => !it.metadata);
+    const batchSize = 25;
+    for (let i = 0; i < pending.length; i += batchSize) {
+      const batch = pending.slice(i, i + batchSize);
+      const results = await Promise.all(batch.map((it) => readAudioMetadata(it.path)));
+      const byPath = new Map<string, AudioMetadata>();
+      batch.forEach((it, idx) => {
+        const md = results[idx];
+        if (md) byPath.set(it.path, md);
+      });
+      if (byPath.size === 0) continue;
+      byPath.forEach((metadata, filePath) => {
+        const index = indexForPath(filePath);
+        if (index) updateIndexedFile(index, filePath, { metadata });
+      });
+      scheduleIndexSave();
+      setItems((prev) => prev.map((it) => (byPath.has(it.path) ? { ...it, metadata: byPath.get(it.path) } : it)));
+    }
+  }
+
+  // Run the slower analysers in the background, one file at a time since they
+  // decode the whole file: loudness and similarity features for everything,
+  // tempo and key for files long enough to be music. Results are cached in the index and merged into
+  // items in batches; files that can't be decoded are cached as null.
+  async function queueAnalysis(list: AudioItem[]) {
+    list.forEach((it) => analysisQueueRef.current.add(it.path));
+    if (analysingRef.current) return;
+    analysingRef.current = true;
+    const measured = new Map<string, FileAnalysis>();
+    let lastFlush = Date.now();
+    const flush = () => {
+      lastFlush = Date.now();
+      if (measured.size === 0) return;
+      const batch = new Map(measured);
+      measured.clear();
+      scheduleIndexSave();
+      setItems((prev) =>
+        prev.map((it) => (batch.has(it.path) ? { ...it, analysis: { ...it.analysis, ...batch.get(it.path) } } : it))
+      );
+    };
+    try {
+      // Files queued while this runs are picked up by the same loop
+      for (const filePath of analysisQueueRef.current) {
+        analysisQueueRef.current.delete(filePath);
+        if (unmountedRef.current) break;
+        const index = indexForPath(filePath);
+        const entry = index?.files[filePath];
+        if (!index || !entry) continue;
+        // A null result means the file can't be decoded and is cached; a
+        // failure that may pass (file busy, decoder missing) is left unset so
+        // the next scan tries again
+        const patch: FileAnalysis = {};
+        const retryLater = (e: unknown) => {
+          console.error("Audio analysis will be retried", filePath, e);
+          return undefined;
+        };
+        if (entry.analysis?.loudness === undefined) {
+          const loudness = await analyzeLoudness(filePath).catch(retryLater);
+          if (loudness !== undefined) patch.loudness = loudness;
+        }
+        if (entry.analysis?.features === undefined) {
+          const features = await extractFeatures(filePath, entry.metadata?.durationSec).catch(retryLater);
+          if (features !== undefined) patch.features = features;
+        }
+        if (entry.analysis?.music === undefined && (entry.metadata?.durationSec ?? 0) >= MIN_MUSIC_SEC) {
+          const music = await analyzeMusic(filePath).catch(retryLater);
+          if (music !== undefined) patch.music = music;
+        }
+        if (Object.keys(patch).length === 0) continue;
+        // Skip the result if the file changed while it was being measured
+        const current = index.files[filePath];
+        if (current?.size !== entry.size || current.mtimeMs !== entry.mtimeMs) continue;
+        updateIndexedFile(index, filePath, { analysis: patch });
+        measured.set(filePath, patch);
+        if (measured.size >= 20 || Date.now() - lastFlush > 2000) flush();
+      }
+    } catch (e) {
+      console.error("Audio analysis failed", e);
+    } finally {
+      flush();
+      analysingRef.current = false;
+    }
+  }
+
+  function loudnessAccessories(item: AudioItem): List.Item.Accessory[] {
+    const loudness = item.analysis?.loudness;
+    if (!loudness || loudness.integratedLufs === null) return [];
+    return [
+      {
+        text: formatLufs(loudness.integratedLufs),
+        tooltip: `Integrated Loudness · True Peak ${loudness.truePeakDb.toFixed(1)} dBTP · RMS ${loudness.rmsDb.toFixed(1)} dBFS`,
+      },
+    ];
+  }
+
+  function musicAccessories(item: AudioItem): List.Item.Accessory[] {
+    const music = item.analysis?.music;
+    if (!music) return [];
+    const accessories: List.Item.Accessory[] = [];
+    if (music.bpm) accessories.push({ text: formatBpm(music.bpm), tooltip: "Tempo" });
+    if (music.key) accessories.push({ text: formatKey(music.key), tooltip: "Key" });
+    return accessories;
+  }
+
+  function metadataAccessories(item: AudioItem): List.Item.Accessory[] {
+    const md = item.metadata;
+    if (!md) return [];
+    const accessories: List.Item.Accessory[] = [];
+    const bitDepth = formatBitDepth(md.bitDepth);
+    if (bitDepth) accessories.push({ text: bitDepth, tooltip: `Bit Depth (${md.codec || md.format})` });
+    const channels = formatChannels(md.channels);
+    if (channels) accessories.push({ text: channels, tooltip: "Channels" });
+    const rate = formatSampleRate(md.sampleRate);
+    if (rate) accessories.push({ text: rate, tooltip: "Sample Rate" });
+    const duration = formatDuration(md.durationSec);
+    if (duration) accessories.push({ text: duration, icon: Icon.Clock, tooltip: "Duration" });
+    return accessories;
+  }
+
+  function tagAccessories(item: AudioItem): List.Item.Accessory[] {
+    return (tags[item.path] ?? []).map((t) => ({ tag: t, tooltip: "Tag" }));
+  }
+
   async function loadFavorites() {
     try {
       const stored: unknown = await LocalStorage.getItem("favoriteAudioFiles");
@@ -471,39 +1013,150 @@ export default function Command() {
       } else if (Array.isArray(stored)) {
         fromLocal = stored.filter((v) => typeof v === "string");
       }
-      const fromFile = readFavoritesFile();
-      const chosen = Array.isArray(fromFile) ? fromFile : fromLocal;
-      setFavorites(chosen);
-      await LocalStorage.setItem("favoriteAudioFiles", JSON.stringify(chosen));
-      writeFavoritesFile(chosen);
+      // A root's favorites file wins over LocalStorage for files in that root;
+      // entries for roots without a file (or outside every root) are kept
+      const indexes = indexesRef.current;
+      const pending = await loadPendingFavoriteOps();
+      const chosen: string[] = [];
+      const rootsWithFile = new Set<string>();
+      for (const root of roots) {
+        if (!indexes.has(root.id)) continue; // offline: its file is left alone
+        let fromFile = readFavoritesFile(root);
+        // Absolute paths from older versions (possibly from another machine), or
+        // this machine's list when the root has no file yet. Their time is
+        // unknown, so any recorded operation on the same file wins.
+        const legacyPaths = fromFile
+          ? fromFile.legacyPaths
+          : fromLocal.filter((f) => findRootForPath(roots, f)?.id === root.id);
+        const migrated: FavoriteOp[] = [];
+        for (const legacyPath of legacyPaths) {
+          const ref = await migrateLegacyPath(roots, indexes, legacyPath, root.id);
+          if (ref) migrated.push(favoriteOp(ref, "add", 0));
+        }
+        const queued = pending[root.id] ?? [];
+        if (migrated.length > 0 || queued.length > 0 || fromFile?.needsRewrite) {
+          if (writeFavoritesFile(root, [...migrated, ...queued], { legacyMigrated: true })) {
+            delete pending[root.id];
+            fromFile = readFavoritesFile(root);
+          }
+        }
+        if (!fromFile) continue;
+        rootsWithFile.add(root.id);
+        for (const op of fromFile.ops) {
+          if (op.op !== "add") continue;
+          const resolved = await resolvePortableRef(op, roots, indexes, root.id);
+          if (resolved) chosen.push(resolved);
+        }
+      }
+      await LocalStorage.setItem("favoriteAudioPendingOps", JSON.stringify(pending));
+      for (const f of fromLocal) {
+        const root = findRootForPath(roots, f);
+        if (!root || !rootsWithFile.has(root.id)) chosen.push(f);
+      }
+      const next = [...new Set(chosen)];
+      updateFavorites(next);
+      await LocalStorage.setItem("favoriteAudioFiles", JSON.stringify(next));
+      scheduleIndexSave(); // content hashes may have been computed
     } catch (e) {
       console.error("Failed to load favorites", e);
     }
   }
 
+  // Favorite changes that couldn't be written to their root's file, by root id
+  async function loadPendingFavoriteOps(): Promise<Record<string, FavoriteOp[]>> {
+    try {
+      const stored = await LocalStorage.getItem("favoriteAudioPendingOps");
+      const parsed = typeof stored === "string" ? JSON.parse(stored) : null;
+      return parsed && typeof parsed === "object" ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+
+  // Changes are merged into each root's file as add/remove operations, so
+  // teammates editing at the same time don't overwrite each other. Changes
+  // that can't be written now are queued and retried on the next load.
+  async function recordFavoriteChanges(changes: { path: string; favorite: boolean }[]) {
+    try {
+      const byRoot = new Map<string, FavoriteOp[]>();
+      for (const change of changes) {
+        const ref = await toPortableRef(roots, indexesRef.current, change.path);
+        if (!ref?.root) continue;
+        byRoot.set(ref.root, [...(byRoot.get(ref.root) ?? []), favoriteOp(ref, change.favorite ? "add" : "remove")]);
+      }
+      let pending: Record<string, FavoriteOp[]> | null = null;
+      for (const [rootId, ops] of byRoot) {
+        const root = roots.find((r) => r.id === rootId);
+        const index = indexesRef.current.get(rootId);
+        if (root && index && writeFavoritesFile(root, ops)) {
+          // In the background: it reads each added file in full
+          completeFullHashes(root, index, ops)
+            .then(() => scheduleIndexSave())
+            .catch((e) => console.error("Failed to add full hashes to favorites", e));
+          continue;
+        }
+        pending = pending ?? (await loadPendingFavoriteOps());
+        pending[rootId] = mergeFavoriteOps(pending[rootId] ?? [], ops);
+      }
+      if (pending) await LocalStorage.setItem("favoriteAudioPendingOps", JSON.stringify(pending));
+      scheduleIndexSave();
+    } catch (e) {
+      console.error("Failed to save favorites", e);
+    }
+  }
+
+  // Recents are stored as portable refs; "recentlyUsedAudioFiles" held absolute paths
   async function loadRecentlyUsed() {
     try {
-      const stored: unknown = await LocalStorage.getItem("recentlyUsedAudioFiles");
-      let parsed: string[] = [];
+      const indexes = indexesRef.current;
+      const stored: unknown = await LocalStorage.getItem("recentlyUsedAudioRefs");
+      let refs: PortableRef[] = [];
       if (typeof stored === "string") {
         try {
           const maybe = JSON.parse(stored);
-          if (Array.isArray(maybe)) parsed = maybe.filter((v) => typeof v === "string");
+          if (Array.isArray(maybe)) refs = maybe.filter((v) => v && typeof v.path === "string");
         } catch {}
-      } else if (Array.isArray(stored)) {
-        parsed = stored.filter((v) => typeof v === "string");
+      } else {
+        const legacy = await LocalStorage.getItem("recentlyUsedAudioFiles");
+        if (typeof legacy === "string") {
+          try {
+            const maybe = JSON.parse(legacy);
+            if (Array.isArray(maybe)) {
+              for (const p of maybe.filter((v) => typeof v === "string")) {
+                const ref = await migrateLegacyPath(roots, indexes, p);
+                if (ref) refs.push(ref);
+              }
+            }
+          } catch {}
+        }
+      }
+      const resolved: string[] = [];
+      const unresolved: PortableRef[] = [];
+      for (const ref of refs) {
+        const p = await resolvePortableRef(ref, roots, indexes);
+        if (p) resolved.push(p);
+        else unresolved.push(ref);
       }
-      setRecentlyUsed(parsed);
+      unresolvedRecentsRef.current = unresolved;
+      updateRecentlyUsed(resolved);
+      await saveRecentlyUsed(resolved);
+      await LocalStorage.removeItem("recentlyUsedAudioFiles");
     } catch (e) {
       console.error("Failed to load recently used", e);
     }
   }
 
+  async function saveRecentlyUsed(list: string[]) {
+    const refs = await Promise.all(list.map((f) => toPortableRef(roots, indexesRef.current, f)));
+    const all = [...refs.filter((r): r is PortableRef => r !== null), ...unresolvedRecentsRef.current].slice(0, 10);
+    await LocalStorage.setItem("recentlyUsedAudioRefs", JSON.stringify(all));
+  }
+
   async function addToRecentlyUsed(filePath: string) {
     try {
-      const next = [filePath, ...recentlyUsed.filter((f) => f !== filePath)].slice(0, 10);
-      setRecentlyUsed(next);
-      await LocalStorage.setItem("recentlyUsedAudioFiles", JSON.stringify(next));
+      const next = [filePath, ...recentlyUsedRef.current.filter((f) => f !== filePath)].slice(0, 10);
+      updateRecentlyUsed(next);
+      await saveRecentlyUsed(next);
     } catch (e) {
       console.error("Failed to update recently used", e);
     }
@@ -521,7 +1174,8 @@ export default function Command() {
   }
 
   async function toggleAutoplay() {
-    const newValue = !autoplayEnabled;
+    const newValue = !autoplayEnabledRef.current;
+    autoplayEnabledRef.current = newValue;
     setAutoplayEnabled(newValue);
     await LocalStorage.setItem("autoplayEnabled", newValue);
     await showToast({
@@ -531,12 +1185,236 @@ export default function Command() {
     });
   }
 
+  async function loadPreviewSettings() {
+    try {
+      setPreviewSettings(parsePreviewSettings(await LocalStorage.getItem(PREVIEW_SETTINGS_KEY)));
+    } catch (e) {
+      console.error("Failed to load preview settings", e);
+    }
+  }
+
+  // Read again whenever the preset menu opens, so edits to the file show up
+  async function loadPresets() {
+    try {
+      setImportPresets(await loadImportPresets(environment.supportPath));
+    } catch (e) {
+      console.error("Failed to load import presets", e);
+    }
+  }
+
+  async function loadDefaultImportPreset() {
+    try {
+      const stored = await LocalStorage.getItem("audioFilesDefaultImportPreset");
+      if (typeof stored === "string") setDefaultPresetName(stored);
+    } catch (e) {
+      console.error("Failed to load default import preset", e);
+    }
+  }
+
+  async function updateDefaultImportPreset(name: string | null) {
+    defaultPresetNameRef.current = name;
+    setDefaultPresetName(name);
+    if (name) await LocalStorage.setItem("audioFilesDefaultImportPreset", name);
+    else await LocalStorage.removeItem("audioFilesDefaultImportPreset");
+  }
+
+  // Undefined when none is set or it was since removed from the presets file
+  function defaultImportPreset(): ImportPreset | undefined {
+    return importPresetsRef.current.find((p) => p.name === defaultPresetNameRef.current);
+  }
+
+  async function updatePreviewSettings(patch: Partial<PreviewSettings>) {
+    const next = { ...previewSettingsRef.current, ...patch };
+    previewSettingsRef.current = next;
+    setPreviewSettings(next);
+    await LocalStorage.setItem(PREVIEW_SETTINGS_KEY, JSON.stringify(next));
+    // Hear the change right away
+    if (currentlyPlayingRef.current) playPreview(currentlyPlayingRef.current);
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Preview Settings",
+      message: `Start ${describeOffset(next.offset)} · Length ${describeLength(next.lengthSec)} · Volume ${describeVolume(next.volume)} · Match ${describeLoudnessTarget(next.loudnessTarget)}${next.loop ? " · Loop" : ""}${isTreated(next) ? ` · ${describeTreatment(next)}` : ""}`,
+    });
+  }
+
+  // Duplicate search: hashes and fingerprints are cached in the index
+  async function contentHashFor(item: AudioItem): Promise<string | undefined> {
+    const index = indexForPath(item.path);
+    if (!index) return undefined;
+    const hash = await ensureContentHash(index, item.path);
+    scheduleIndexSave();
+    return hash;
+  }
+
+  async function fullHashFor(item: AudioItem): Promise<string | undefined> {
+    const index = indexForPath(item.path);
+    if (!index) return undefined;
+    const hash = await ensureFullHash(index, item.path);
+    scheduleIndexSave();
+    return hash;
+  }
+
+  async function fingerprintFor(item: AudioItem): Promise<string | null> {
+    const index = indexForPath(item.path);
+    const cached = index?.files[item.path]?.analysis?.fingerprint;
+    if (cached !== undefined) return cached;
+    let fingerprint: string | null;
+    try {
+      fingerprint = await computeFingerprint(item.path);
+    } catch (e) {
+      // Not cached, so the next search tries again
+      console.error("Failed to fingerprint", item.path, e);
+      return null;
+    }
+    if (index) {
+      updateIndexedFile(index, item.path, { analysis: { fingerprint } });
+      scheduleIndexSave();
+    }
+    return fingerprint;
+  }
+
+  // Similarity features of one file, computed now when the background pass
+  // hasn't reached it yet
+  async function featuresFor(item: AudioItem): Promise<number[] | null> {
+    const index = indexForPath(item.path);
+    const entry = index?.files[item.path];
+    if (entry?.analysis?.features !== undefined) return entry.analysis.features;
+    const features = await extractFeatures(item.path, item.metadata?.durationSec).catch(() => null);
+    if (index) {
+      updateIndexedFile(index, item.path, { analysis: { features } });
+      scheduleIndexSave();
+    }
+    return features;
+  }
+
+  // Copies removed from a duplicate group hand their favorite and tags to the
+  // copy that is kept
+  async function mergeDuplicatesOnto(keep: string, removed: string[]) {
+    try {
+      const merged = mergeDuplicateFavorites(favoritesRef.current, keep, removed);
+      if (merged) {
+        updateFavorites(merged.next);
+        await LocalStorage.setItem("favoriteAudioFiles", JSON.stringify(merged.next));
+        await recordFavoriteChanges(merged.changes);
+      }
+      const next = mergeDuplicateTags(tagsRef.current, keep, removed);
+      if (next) {
+        updateTags(next);
+        writeTags(roots, next, [keep, ...removed]);
+      }
+    } catch (e) {
+      console.error("Failed to merge duplicates", e);
+    }
+  }
+
+  function duplicatesTarget() {
+    return (
+      <DuplicateFinder
+        items={items}
+        favorites={favorites}
+        tags={tags}
+        contentHash={contentHashFor}
+        fullHash={fullHashFor}
+        fingerprint={fingerprintFor}
+        onMerge={mergeDuplicatesOnto}
+        renderItemActions={renderItemActions}
+      />
+    );
+  }
+
+  // Where the sound starts, measured once per file and cached in the index
+  async function leadingSilenceFor(filePath: string): Promise<number | undefined> {
+    const index = indexForPath(filePath);
+    const cached = index?.files[filePath]?.analysis?.leadingSilenceSec;
+    if (cached !== undefined) return cached;
+    const measured = await measureLeadingSilence(filePath).catch(() => null);
+    if (measured === null) return undefined;
+    if (index) {
+      updateIndexedFile(index, filePath, { analysis: { leadingSilenceSec: measured } });
+      scheduleIndexSave();
+    }
+    return measured;
+  }
+
+  async function loadShowDetailPreference() {
+    try {
+      const stored = await LocalStorage.getItem("audioFilesShowDetail");
+      if (typeof stored === "boolean") {
+        setShowDetail(stored);
+      }
+    } catch (e) {
+      console.error("Failed to load detail preference", e);
+    }
+  }
+
+  async function toggleDetail() {
+    const newValue = !showDetailRef.current;
+    showDetailRef.current = newValue;
+    setShowDetail(newValue);
+    await LocalStorage.setItem("audioFilesShowDetail", newValue);
+  }
+
+  async function loadIncludeSubfoldersPreference() {
+    try {
+      const stored = await LocalStorage.getItem("audioFilesIncludeSubfolders");
+      if (typeof stored === "boolean") {
+        setIncludeSubfolders(stored);
+      }
+    } catch (e) {
+      console.error("Failed to load subfolder preference", e);
+    }
+  }
+
+  async function updateIncludeSubfolders(value: boolean) {
+    setIncludeSubfolders(value);
+    await LocalStorage.setItem("audioFilesIncludeSubfolders", value);
+  }
+
+  async function loadSortOrder() {
+    try {
+      const stored = await LocalStorage.getItem("audioFilesSortOrder");
+      const match = SORT_ORDERS.find((o) => o.value === stored);
+      if (match) setSortOrder(match.value);
+    } catch (e) {
+      console.error("Failed to load sort order", e);
+    }
+  }
+
+  async function updateSortOrder(value: SortOrder) {
+    setSortOrder(value);
+    setShuffleSeed(null);
+    await LocalStorage.setItem("audioFilesSortOrder", value);
+  }
+
+  function chooseCategory(value: string) {
+    setSelectedCategory(value);
+    LocalStorage.setItem("audioFilesSelectedCategory", value);
+  }
+
+  function chooseFolder(rootId: string, folder: string) {
+    chooseCategory(categoryValue(rootId, folder === "" ? WHOLE_ROOT : folder));
+  }
+
+  async function saveTags(filePath: string, list: string[]) {
+    const next = { ...tagsRef.current };
+    if (list.length > 0) next[filePath] = list;
+    else delete next[filePath];
+    updateTags(next);
+    writeTags(roots, next, [filePath]);
+    await showToast({
+      style: Toast.Style.Success,
+      title: list.length > 0 ? "Tags Saved" : "Tags Cleared",
+      message: list.length > 0 ? list.join(", ") : path.basename(filePath),
+    });
+  }
+
   async function toggleFavorite(filePath: string) {
-    const isFav = favorites.includes(filePath);
-    const next = isFav ? favorites.filter((f) => f !== filePath) : [...favorites, filePath];
-    setFavorites(next);
+    const current = favoritesRef.current;
+    const isFav = current.includes(filePath);
+    const next = isFav ? current.filter((f) => f !== filePath) : [...current, filePath];
+    updateFavorites(next);
     await LocalStorage.setItem("favoriteAudioFiles", JSON.stringify(next));
-    writeFavoritesFile(next);
+    await recordFavoriteChanges([{ path: filePath, favorite: !isFav }]);
     await showToast({
       style: Toast.Style.Success,
       title: isFav ? "Removed from Favorites" : "Added to Favorites",
@@ -544,7 +1422,30 @@ export default function Command() {
     });
   }
 
+  // State read by item actions is kept in refs too, and they are set together
+  function updateFavorites(next: string[]) {
+    favoritesRef.current = next;
+    setFavorites(next);
+  }
+
+  function updateTags(next: TagMap) {
+    tagsRef.current = next;
+    setTags(next);
+  }
+
+  function updateRecentlyUsed(next: string[]) {
+    recentlyUsedRef.current = next;
+    setRecentlyUsed(next);
+  }
+
+  function updateCurrentlyPlaying(filePath: string | null) {
+    currentlyPlayingRef.current = filePath;
+    setCurrentlyPlaying(filePath);
+  }
+
   function stopPlayback() {
+    // Cancel a preview that is still being prepared
+    playRequestRef.current++;
     // Clear any pending timers
     if (stopTimerRef.current) {
       clearTimeout(stopTimerRef.current);
@@ -553,59 +1454,334 @@ export default function Command() {
     
     // Kill the current process immediately
     if (playerRef.current) {
-      try {
-        playerRef.current.kill("SIGTERM"); // Use SIGTERM for cleaner termination
-      } catch {}
+      playerRef.current.stop();
       playerRef.current = null;
     }
     
-    setCurrentlyPlaying(null);
+    updateCurrentlyPlaying(null);
+    stopLayerStack();
   }
 
   async function stopAllAudio() {
-    // Kill all afplay processes to ensure no lingering audio
+    // Only players started by this extension are stopped, never other apps' audio
+    stopPlayback();
+    let stopped = 0;
     try {
-      const { exec } = require("child_process");
-      exec("pkill -9 -f afplay", (error: any) => {
-        if (error) {
-          console.log("No afplay processes found or already stopped");
-        } else {
-          console.log("Stopped all afplay processes");
-        }
-      });
+      stopped = await stopAllPlayback();
     } catch (e) {
       console.error("Failed to stop all audio", e);
     }
-    
-    // Also stop current playback
-    stopPlayback();
-    
+
     await showToast({
       style: Toast.Style.Success,
       title: "All Audio Stopped",
-      message: "Killed all background audio processes"
+      message: stopped > 0 ? `Stopped ${stopped} preview player${stopped === 1 ? "" : "s"}` : "No previews were playing"
     });
   }
 
-  function playPreview(filePath: string) {
-    // Prefer afplay (built-in). If it fails to spawn, nothing fatal.
+  // Resolves to whether a player was started. `onEnded` runs once that player
+  // exits, unless a newer preview replaced it first.
+  async function playPreview(filePath: string, options?: { loop?: boolean; onEnded?: () => void }): Promise<boolean> {
+    const request = ++playRequestRef.current;
+    const settings = previewSettingsRef.current;
+    const entry = indexForPath(filePath)?.files[filePath];
+    const durationSec = entry?.metadata?.durationSec;
+    // A speed change or reverse plays a rendered copy, timed in its own terms
+    const source = isTreated(settings) ? await treatedCopyFor(filePath) : filePath;
+    if (request !== playRequestRef.current || !source) return false;
+    let silence: number | undefined;
+    if (settings.offset.kind === "skipSilence") {
+      silence = settings.reverse
+        ? (await measureLeadingSilence(source).catch(() => null)) ?? undefined
+        : ((await leadingSilenceFor(filePath)) ?? 0) / settings.rate;
+    }
+    if (request !== playRequestRef.current) return false;
+    const offsetSec = resolveOffsetSec(settings.offset, durationSec !== undefined ? durationSec / settings.rate : undefined, silence);
+
+    const backend = selectBackend(source, playerBackend, offsetSec > 0);
+    if (!backend) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "No Audio Player Found",
+        message: `Install afplay, pw-play, paplay, mpv or ffplay to play ${path.extname(source) || "this file"}`,
+      });
+      return false;
+    }
+    if (offsetSec > 0 && !backend.canSeek && !seekWarningShownRef.current) {
+      seekWarningShownRef.current = true;
+      showToast({
+        style: Toast.Style.Failure,
+        title: `${backend.name} Can't Start Mid-File`,
+        message: "Playing from the start. Install mpv or ffplay to use a start offset.",
+      });
+    }
+    // Replace whatever is playing now
+    playerRef.current?.stop();
     try {
-      playerRef.current = spawn("/usr/bin/afplay", [filePath], { stdio: "ignore" });
-      playerRef.current.on("exit", () => {
+      // Match the file to the target loudness; boosts stop at what the player can do
+      const loudness = entry?.analysis?.loudness;
+      const gainDb = loudness && settings.loudnessTarget !== null ? loudnessMatchGainDb(loudness, settings.loudnessTarget) : 0;
+      const volume = Math.min(backend.maxVolume, settings.volume * Math.pow(10, gainDb / 20));
+      const playOptions = { offsetSec, volume, loop: options?.loop ?? settings.loop };
+      const playback = startPlayback(backend, source, playOptions, () => {
+        // A newer preview may already have replaced this one
+        if (playerRef.current !== playback) return;
         playerRef.current = null;
-        setCurrentlyPlaying(null);
+        updateCurrentlyPlaying(null);
+        options?.onEnded?.();
       });
-      setCurrentlyPlaying(filePath);
+      playerRef.current = playback;
+      if (playback) updateCurrentlyPlaying(filePath);
+      return playback !== null;
     } catch (e) {
-      console.error("Failed to start afplay", e);
+      console.error(`Failed to start ${backend.name}`, e);
+      return false;
+    }
+  }
+
+  function stopLayerStack() {
+    const playback = stackPlaybackRef.current;
+    stackPlaybackRef.current = null;
+    playback?.stop();
+    setStackPlaying(false);
+  }
+
+  function playLayerStack() {
+    const stack = layerStackRef.current;
+    stopPlayback();
+    if (stack.length === 0) return;
+    // Layer gains and the preview volume only, so the mix sounds like the comp
+    const playback = playLayers(stack, previewSettingsRef.current.volume, playerBackend, () => {
+      if (stackPlaybackRef.current !== playback) return;
+      stackPlaybackRef.current = null;
+      setStackPlaying(false);
+    });
+    if (!playback) {
+      showToast({ style: Toast.Style.Failure, title: "No Audio Player Found", message: "None of the layers can be played" });
+      return;
+    }
+    stackPlaybackRef.current = playback;
+    setStackPlaying(true);
+  }
+
+  // Changes to a playing stack are heard straight away
+  function updateLayerStack(next: StackLayer[]) {
+    layerStackRef.current = next;
+    setLayerStack(next);
+    if (stackPlaybackRef.current) {
+      if (next.length > 0) playLayerStack();
+      else stopLayerStack();
+    }
+  }
+
+  function toggleLayer(filePath: string) {
+    const stack = layerStackRef.current;
+    const inStack = stack.some((l) => l.path === filePath);
+    updateLayerStack(inStack ? removeLayer(stack, filePath) : addLayer(stack, filePath));
+    showToast({
+      style: Toast.Style.Success,
+      title: inStack ? "Removed from Layer Stack" : "Added to Layer Stack",
+      message: `${path.basename(filePath)} · ${stack.length + (inStack ? -1 : 1)} layers`,
+    });
+  }
+
+  function setLayer(filePath: string, patch: Partial<Omit<StackLayer, "path">>) {
+    updateLayerStack(updateLayer(layerStackRef.current, filePath, patch));
+  }
+
+  // Rendered copies are kept, since After Effects projects may import them
+  function treatmentCacheDir(): string {
+    return path.join(environment.supportPath, "Rendered");
+  }
+
+  // The file rendered with the current speed/reverse treatment; null if it can't be
+  async function treatedCopyFor(filePath: string): Promise<string | null> {
+    const settings = previewSettingsRef.current;
+    const cacheDir = treatmentCacheDir();
+    const cached = fs.existsSync(treatedCopyPath(filePath, settings, cacheDir));
+    const toast = cached
+      ? null
+      : await showToast({ style: Toast.Style.Animated, title: "Rendering Preview…", message: `${path.basename(filePath)} · ${describeTreatment(settings)}` });
+    try {
+      const copy = await renderTreatedCopy(filePath, settings, cacheDir);
+      if (!copy) throw new Error("The file can't be decoded or is too long");
+      toast?.hide();
+      return copy;
+    } catch (e: any) {
+      console.error("Failed to render treated copy", filePath, e);
+      showToast({ style: Toast.Style.Failure, title: "Can't Render Preview", message: e?.message || String(e) });
+      return null;
+    }
+  }
+
+  // Conversions for AE go next to the open project, or to the support folder
+  // while it is unsaved
+  async function conversionDir(): Promise<string> {
+    const project = await getAEProjectPath();
+    return project ? path.join(path.dirname(project), CONVERSION_FOLDER) : path.join(environment.supportPath, CONVERSION_FOLDER);
+  }
+
+  // The file AE can import for `filePath`, converted into `dir` if it has to be
+  async function importableFor(filePath: string, dir: string): Promise<string | null> {
+    try {
+      const importable = await ensureImportable(filePath, dir);
+      if (importable.reason) {
+        appendLog([`Using converted copy for ${path.basename(filePath)} (${importable.reason}): ${importable.path}`], "audio-files");
+      }
+      return importable.path;
+    } catch (e: any) {
+      appendLog([`Conversion failed for ${path.basename(filePath)}: ${e?.message || e}`], "audio-files");
+      showToast({ style: Toast.Style.Failure, title: "Can't Convert for After Effects", message: e?.message || String(e) });
+      return null;
+    }
+  }
+
+  // What After Effects should import to hear the file as previewed: the
+  // original with a layer stretch, or a rendered copy; either converted if AE
+  // can't read it
+  async function importSourceFor(filePath: string, dir: string): Promise<{ path: string; stretch?: number } | null> {
+    const settings = previewSettingsRef.current;
+    const stretch = isTreated(settings) && !needsRenderedCopy(settings) ? layerStretch(settings) : undefined;
+    const source = isTreated(settings) && needsRenderedCopy(settings) ? await treatedCopyFor(filePath) : filePath;
+    const importable = source ? await importableFor(source, dir) : null;
+    return importable ? { path: importable, stretch } : null;
+  }
+
+  // importSourceFor for batches, which report failures per file instead of
+  // with a toast each
+  async function batchSourceFor(filePath: string, dir: string): Promise<OnDemandSound> {
+    const settings = previewSettingsRef.current;
+    let source = filePath;
+    if (isTreated(settings) && needsRenderedCopy(settings)) {
+      const copy = await renderTreatedCopy(filePath, settings, treatmentCacheDir());
+      if (!copy) throw new Error("Can't render: the file can't be decoded or is too long");
+      source = copy;
+    }
+    const importable = await ensureImportable(source, dir);
+    if (importable.reason) {
+      appendLog([`Using converted copy for ${path.basename(filePath)} (${importable.reason}): ${importable.path}`], "audio-files");
+    }
+    const stretch = isTreated(settings) && !needsRenderedCopy(settings) ? layerStretch(settings) : undefined;
+    return { path: importable.path, stretch };
+  }
+
+  function updateAudition(next: AuditionState | null) {
+    auditionRef.current = next;
+    setAudition(next);
+  }
+
+  function clearAuditionTimer() {
+    if (auditionTimerRef.current) {
+      clearTimeout(auditionTimerRef.current);
+      auditionTimerRef.current = null;
+    }
+  }
+
+  // Step through the visible list (search, filter and shuffle order included)
+  // from the selected file, playing each for the preview length
+  function startAudition() {
+    const queue = results.map((i) => i.path);
+    if (queue.length === 0) {
+      showToast({ style: Toast.Style.Failure, title: "Nothing to Audition" });
+      return;
+    }
+    stopPlayback();
+    const start = Math.max(0, queue.indexOf(selectedId ?? ""));
+    updateAudition({ queue, position: start, kept: [], skipped: 0 });
+    auditionPlay(start);
+  }
+
+  async function auditionPlay(position: number) {
+    const state = auditionRef.current;
+    if (!state) return;
+    clearAuditionTimer();
+    if (position >= state.queue.length) {
+      finishAudition();
+      return;
     }
+    const step = ++auditionStepRef.current;
+    const filePath = state.queue[position];
+    updateAudition({ ...state, position });
+    setSelectionOverride(filePath);
+
+    const advance = () => {
+      if (step !== auditionStepRef.current) return;
+      auditionStepRef.current++;
+      clearAuditionTimer();
+      auditionTimerRef.current = setTimeout(() => auditionPlay(position + 1), AUDITION_GAP_MS);
+    };
+    // Looping would never end, so a pass always plays each file once
+    const started = await playPreview(filePath, { loop: false, onEnded: advance });
+    if (step !== auditionStepRef.current) return;
+    if (!started) {
+      advance();
+      return;
+    }
+    const { lengthSec } = previewSettingsRef.current;
+    if (lengthSec > 0) {
+      // Stopping the player ends the step through `advance`
+      auditionTimerRef.current = setTimeout(() => {
+        if (step === auditionStepRef.current) playerRef.current?.stop();
+      }, lengthSec * 1000);
+    }
+  }
+
+  async function keepAuditionItem() {
+    const state = auditionRef.current;
+    if (!state) return;
+    const filePath = state.queue[state.position];
+    if (!favoritesRef.current.includes(filePath)) await toggleFavorite(filePath);
+    const next = { ...state, kept: [...state.kept.filter((p) => p !== filePath), filePath] };
+    updateAudition(next);
+    auditionPlay(state.position + 1);
+  }
+
+  function skipAuditionItem() {
+    const state = auditionRef.current;
+    if (!state) return;
+    updateAudition({ ...state, skipped: state.skipped + 1 });
+    auditionPlay(state.position + 1);
+  }
+
+  function stopAudition() {
+    const state = auditionRef.current;
+    if (!state) return;
+    finishAudition();
+  }
+
+  function finishAudition() {
+    const state = auditionRef.current;
+    auditionStepRef.current++;
+    clearAuditionTimer();
+    stopPlayback();
+    updateAudition(null);
+    if (!state) return;
+    const played = Math.min(state.position + 1, state.queue.length);
+    const byPath = new Map(items.map((i) => [i.path, i]));
+    push(
+      <AuditionSummary
+        kept={state.kept.map((p) => byPath.get(p)).filter((i): i is AudioItem => i !== undefined)}
+        played={played}
+        skipped={state.skipped}
+        total={state.queue.length}
+        renderItemActions={renderItemActions}
+      />
+    );
   }
 
   function togglePlayback(filePath: string) {
-    if (currentlyPlaying === filePath) {
+    // During an audition pass, playing a queued file jumps there and stopping ends the pass
+    const state = auditionRef.current;
+    if (state) {
+      const position = state.queue.indexOf(filePath);
+      if (currentlyPlayingRef.current === filePath || position === -1) stopAudition();
+      else auditionPlay(position);
+      return;
+    }
+    if (currentlyPlayingRef.current === filePath) {
       // Stop current playback
       stopPlayback();
-      setCurrentlyPlaying(null);
+      updateCurrentlyPlaying(null);
     } else {
       // Play this file
       playPreview(filePath);
@@ -650,8 +1826,8 @@ export default function Command() {
     const item = items.find((i) => i.path === selectedId);
     if (!item) return;
     
-    // Only autoplay if autoplay mode is enabled
-    if (autoplayEnabled) {
+    // Only autoplay if autoplay mode is enabled; an audition pass plays on its own
+    if (autoplayEnabled && !auditionRef.current) {
       // Clear any existing timer
       if (stopTimerRef.current) {
         clearTimeout(stopTimerRef.current);
@@ -660,24 +1836,25 @@ export default function Command() {
       
       // Stop any currently playing audio first
       if (playerRef.current) {
-        try {
-          playerRef.current.kill("SIGTERM");
-        } catch {}
+        playerRef.current.stop();
         playerRef.current = null;
       }
       
       // Clear the currently playing state
-      setCurrentlyPlaying(null);
+      updateCurrentlyPlaying(null);
       
       // Small delay to ensure previous audio is fully stopped
       setTimeout(() => {
         // Start new audio
         playPreview(item.path);
         
-        // Auto-stop after 8 seconds
-        stopTimerRef.current = setTimeout(() => {
-          stopPlayback();
-        }, 8000);
+        // Auto-stop after the configured preview length (0 plays the whole file)
+        const { lengthSec } = previewSettingsRef.current;
+        if (lengthSec > 0) {
+          stopTimerRef.current = setTimeout(() => {
+            stopPlayback();
+          }, lengthSec * 1000);
+        }
       }, 100); // 100ms delay to ensure clean transition
     }
     
@@ -693,35 +1870,631 @@ export default function Command() {
   // Cleanup on unmount to prevent lingering processes
   useEffect(() => {
     return () => {
-      stopPlayback();
-      // Also try to kill any remaining afplay processes when component unmounts
-      try {
-        const { exec } = require("child_process");
-        exec("pkill -f afplay", () => {});
-      } catch (e) {
-        console.error("Failed to cleanup audio processes", e);
+      // Flush a pending index write so cached metadata is not lost
+      if (saveIndexTimerRef.current) {
+        clearTimeout(saveIndexTimerRef.current);
+        saveIndexTimerRef.current = null;
+        saveAllIndexes();
       }
+      stopWatchingRef.current.forEach((stop) => stop());
+      unmountedRef.current = true;
+      if (auditionTimerRef.current) clearTimeout(auditionTimerRef.current);
+      stopPlayback();
+      // Also stop any other preview players this extension started
+      stopAllPlayback().catch((e) => console.error("Failed to cleanup audio processes", e));
     };
   }, []);
 
+  // Render the waveform for the selected item when the detail pane is visible
+  useEffect(() => {
+    if (!showDetail || !selectedId || (selectedId in waveforms && waveforms[selectedId] !== false)) return;
+    if (!items.some((i) => i.path === selectedId)) return;
+    let cancelled = false;
+    const colors =
+      environment.appearance === "dark" ? { peak: "#5a6b85", rms: "#9fb4d6" } : { peak: "#a9b7cc", rms: "#4a5f80" };
+    getWaveformImage(selectedId, colors)
+      .catch((e) => {
+        console.error("Failed to render waveform", selectedId, e);
+        return false as const;
+      })
+      .then((image) => {
+        if (!cancelled) setWaveforms((prev) => ({ ...prev, [selectedId]: image }));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, showDetail]);
+
+  function renderDetail(item: AudioItem) {
+    const md = item.metadata;
+    const loudness = item.analysis?.loudness;
+    const music = item.analysis?.music;
+    const image = waveforms[item.path];
+    let markdown = "";
+    if (image) {
+      markdown = `![Waveform](${encodeURI(`file://${image}`)})`;
+    } else if (image === null) {
+      markdown = "_No waveform available for this format._";
+    } else if (image === false) {
+      markdown = "_Couldn't draw the waveform. Select the file again to retry._";
+    }
+    return (
+      <List.Item.Detail
+        isLoading={item.path === selectedId && image === undefined}
+        markdown={markdown}
+        metadata={
+          <List.Item.Detail.Metadata>
+            <List.Item.Detail.Metadata.Label title="Name" text={item.name} />
+            <List.Item.Detail.Metadata.Label title="Category" text={item.category} />
+            {tags[item.path]?.length ? (
+              <List.Item.Detail.Metadata.TagList title="Tags">
+                {tags[item.path].map((t) => (
+                  <List.Item.Detail.Metadata.TagList.Item key={t} text={t} />
+                ))}
+              </List.Item.Detail.Metadata.TagList>
+            ) : null}
+            <List.Item.Detail.Metadata.Separator />
+            <List.Item.Detail.Metadata.Label title="Duration" text={formatDuration(md?.durationSec) || "—"} />
+            <List.Item.Detail.Metadata.Label title="Sample Rate" text={formatSampleRate(md?.sampleRate) || "—"} />
+            <List.Item.Detail.Metadata.Label title="Channels" text={formatChannels(md?.channels) || "—"} />
+            <List.Item.Detail.Metadata.Label title="Bit Depth" text={formatBitDepth(md?.bitDepth) || "—"} />
+            <List.Item.Detail.Metadata.Label
+              title="Format"
+              text={md ? [md.format, md.codec].filter((v, i, a) => v && a.indexOf(v) === i).join(" / ") : "—"}
+            />
+            {md?.bitrate ? (
+              <List.Item.Detail.Metadata.Label title="Bitrate" text={`${Math.round(md.bitrate / 1000)} kbps`} />
+            ) : null}
+            <List.Item.Detail.Metadata.Label title="Size" text={`${Math.round(item.size / 1024)} KB`} />
+            <List.Item.Detail.Metadata.Separator />
+            <List.Item.Detail.Metadata.Label
+              title="Loudness"
+              text={loudness ? formatLufs(loudness.integratedLufs) || "Silent" : loudness === null ? "—" : "Measuring…"}
+            />
+            <List.Item.Detail.Metadata.Label title="True Peak" text={loudness ? `${loudness.truePeakDb.toFixed(1)} dBTP` : "—"} />
+            <List.Item.Detail.Metadata.Label title="RMS" text={loudness ? `${loudness.rmsDb.toFixed(1)} dBFS` : "—"} />
+            {music ? (
+              <>
+                <List.Item.Detail.Metadata.Separator />
+                <List.Item.Detail.Metadata.Label
+                  title="Tempo"
+                  text={music.bpm ? `${music.bpm.toFixed(1)} BPM` : "No steady beat"}
+                />
+                <List.Item.Detail.Metadata.Label title="Key" text={formatKey(music.key) || "—"} />
+              </>
+            ) : null}
+          </List.Item.Detail.Metadata>
+        }
+      />
+    );
+  }
+
   const filtered = useMemo(() => {
     let base = items;
     if (selectedCategory === "Favorites") {
       base = base.filter((i) => favorites.includes(i.path));
+    } else if (selectedCategory.startsWith(TAG_PREFIX)) {
+      const tag = selectedCategory.slice(TAG_PREFIX.length);
+      base = base.filter((i) => tags[i.path]?.includes(tag));
     } else if (selectedCategory !== "All") {
+      const parsed = parseCategoryValue(selectedCategory);
       base = base.filter((i) => {
-        if (selectedCategory === "Root") return i.category === "Root";
-        return topLevelCategoryName(i.category) === selectedCategory;
+        if (!parsed || i.root !== parsed.rootId) return false;
+        if (parsed.folder === WHOLE_ROOT) return includeSubfolders || i.category === ROOT_CATEGORY;
+        if (parsed.folder === ROOT_CATEGORY) return i.category === ROOT_CATEGORY;
+        return isInFolder(i, parsed.folder, includeSubfolders);
       });
     }
     if (shuffleSeed !== null) {
       base = base.slice().sort((a, b) => seededScore(a.path, shuffleSeed) - seededScore(b.path, shuffleSeed));
+    } else if (sortOrder !== "path") {
+      const direction = sortOrder === "loudest" ? -1 : 1;
+      const level = (it: AudioItem) => it.analysis?.loudness?.integratedLufs ?? null;
+      base = base.slice().sort((a, b) => {
+        const la = level(a);
+        const lb = level(b);
+        if (la === null || lb === null) return (la === null ? 1 : 0) - (lb === null ? 1 : 0);
+        return direction * (la - lb);
+      });
     }
     return base;
-  }, [items, favorites, selectedCategory, shuffleSeed]);
+  }, [items, favorites, tags, selectedCategory, includeSubfolders, shuffleSeed, sortOrder]);
+
+  // The search bar is parsed as a query (see search-query.ts) and applied on
+  // top of the dropdown selection; free text ranks results by relevance
+  const results = useMemo(() => {
+    const query = parseSearchQuery(searchText);
+    return applySearchQuery(filtered, query, { tags, isFavorite: (p) => favorites.includes(p) });
+  }, [filtered, searchText, tags, favorites]);
+
+  // Actions for one audio file; shared with the views pushed from the main list
+  function renderItemActions(item: AudioItem) {
+    return (
+      <>
+        {auditionRef.current ? renderAuditionActions() : null}
+        <Action
+          title={currentlyPlayingRef.current === item.path ? "Stop Playback" : "Play Audio"}
+          icon={currentlyPlayingRef.current === item.path ? Icon.Stop : Icon.Play}
+          onAction={() => togglePlayback(item.path)}
+        />
+        {auditionRef.current ? null : (
+          <Action
+            title="Start Audition"
+            icon={Icon.PlayFilled}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+            onAction={() => startAudition()}
+          />
+        )}
+        <Action
+          title={shuffleSeedRef.current === null ? "Shuffle List" : "Reshuffle List"}
+          icon={Icon.RotateClockwise}
+          shortcut={{ modifiers: ["cmd"], key: "r" }}
+          onAction={() => shuffleNow()}
+        />
+        {renderSortActions()}
+        <Action
+          title={autoplayEnabledRef.current ? "Disable Autoplay" : "Enable Autoplay"}
+          icon={autoplayEnabledRef.current ? Icon.Pause : Icon.Play}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+          onAction={() => toggleAutoplay()}
+        />
+        <Action
+          title={showDetailRef.current ? "Hide Waveform Details" : "Show Waveform Details"}
+          icon={Icon.Sidebar}
+          shortcut={{ modifiers: ["cmd"], key: "i" }}
+          onAction={() => toggleDetail()}
+        />
+        {renderPreviewSettingsActions()}
+        <Action
+          title={favoritesRef.current.includes(item.path) ? "Remove from Favorites" : "Add to Favorites"}
+          icon={favoritesRef.current.includes(item.path) ? Icon.HeartDisabled : Icon.Heart}
+          shortcut={{ modifiers: ["cmd"], key: "f" }}
+          onAction={() => toggleFavorite(item.path)}
+        />
+        <Action.Push
+          title="Edit Tags…"
+          icon={Icon.Tag}
+          shortcut={{ modifiers: ["cmd"], key: "t" }}
+          target={
+            <TagForm
+              filePath={item.path}
+              tags={tagsRef.current[item.path] ?? []}
+              knownTags={allTags(tagsRef.current)}
+              onSave={(list) => saveTags(item.path, list)}
+            />
+          }
+        />
+        <Action
+          title={layerStackRef.current.some((l) => l.path === item.path) ? "Remove from Layer Stack" : "Add to Layer Stack"}
+          icon={Icon.Layers}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "l" }}
+          onAction={() => toggleLayer(item.path)}
+        />
+        {layerStackRef.current.length > 0 ? (
+          <Action
+            title={stackPlayingRef.current ? "Stop Layer Stack" : "Play Layer Stack"}
+            icon={stackPlayingRef.current ? Icon.Stop : Icon.Play}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "k" }}
+            onAction={() => (stackPlayingRef.current ? stopLayerStack() : playLayerStack())}
+          />
+        ) : null}
+        <Action.Push
+          title="Find Similar Sounds"
+          icon={Icon.MagnifyingGlass}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
+          target={
+            <SimilarSounds target={item} items={itemsRef.current} featuresFor={featuresFor} renderItemActions={renderItemActions} />
+          }
+        />
+        <Action
+          title="Send to After Effects"
+          icon={Icon.AppWindow}
+          shortcut={{ modifiers: ["cmd"], key: "s" }}
+          onAction={() => sendToAfterEffects(item.path)}
+        />
+        <Action
+          title="Send via AE Restart (Fallback)"
+          icon={Icon.RotateClockwise}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+          onAction={() => sendToAfterEffectsViaRestart(item.path)}
+        />
+        <Action
+          title="Copy AE Debug Log"
+          icon={Icon.Clipboard}
+          shortcut={{ modifiers: ["cmd"], key: "d" }}
+          onAction={() => copyLogToClipboard()}
+        />
+        <Action
+          title="Clear AE Debug Log"
+          icon={Icon.Trash}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+          onAction={() => clearLogFile()}
+        />
+        <Action
+          title="Open in Finder"
+          icon={Icon.Finder}
+          onAction={() => {
+            stopPlayback();
+            // reveal in Finder via AppleScript-free approach
+            const script = `osascript -e 'tell application "Finder" to reveal POSIX file "${item.path.replace(/'/g, "'\\''")}"' -e 'tell application "Finder" to activate'`;
+            spawn("/bin/zsh", ["-lc", script], { stdio: "ignore" });
+          }}
+        />
+
+        <Action
+          title="Import via On-Demand Bridge"
+          icon={Icon.Bolt}
+          shortcut={{ modifiers: ["cmd", "opt"], key: "s" }}
+          onAction={() => sendViaBridge(item.path, undefined, defaultImportPreset())}
+        />
+        <ActionPanel.Submenu title="Import with Preset" icon={Icon.SpeakerHigh} shortcut={{ modifiers: ["cmd", "opt"], key: "p" }} onOpen={() => loadPresets()}>
+          {importPresetsRef.current.map((preset) => (
+            <Action key={preset.name} title={preset.name} onAction={() => sendViaBridge(item.path, undefined, preset)} />
+          ))}
+          <ActionPanel.Section>
+            <Action.Open title="Edit Import Presets" icon={Icon.Pencil} target={importPresetsPath(environment.supportPath)} />
+          </ActionPanel.Section>
+        </ActionPanel.Submenu>
+        <ActionPanel.Submenu title={`Default Import Preset: ${defaultImportPreset()?.name ?? "None"}`} icon={Icon.Bookmark} onOpen={() => loadPresets()}>
+          <Action title="None" icon={defaultImportPreset() ? undefined : Icon.Checkmark} onAction={() => updateDefaultImportPreset(null)} />
+          {importPresetsRef.current.map((preset) => (
+            <Action
+              key={preset.name}
+              title={preset.name}
+              icon={preset.name === defaultImportPreset()?.name ? Icon.Checkmark : undefined}
+              onAction={() => updateDefaultImportPreset(preset.name)}
+            />
+          ))}
+        </ActionPanel.Submenu>
+        <Action.Push
+          title="Import with Options…"
+          icon={Icon.Gear}
+          shortcut={{ modifiers: ["cmd", "opt"], key: "i" }}
+          target={
+            <ImportOptionsForm
+              filePath={item.path}
+              presets={importPresetsRef.current}
+              defaultPreset={defaultImportPreset()?.name}
+              onImport={(placement, preset) => sendViaBridge(item.path, placement, preset)}
+            />
+          }
+        />
+        <Action.Push
+          title="Place on Markers…"
+          icon={Icon.Pin}
+          shortcut={{ modifiers: ["cmd", "opt"], key: "m" }}
+          target={
+            <MarkerImportForm
+              filePath={item.path}
+              otherSounds={layerStackRef.current.map((l) => l.path)}
+              presets={importPresetsRef.current}
+              defaultPreset={defaultImportPreset()?.name}
+              onImport={(options) => placeOnMarkers(options)}
+            />
+          }
+        />
+        <Action
+          title="Stop All Audio"
+          icon={Icon.Stop}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+          onAction={() => stopAllAudio()}
+        />
+      </>
+    );
+  }
+
+  // While auditioning, keeping is the primary action
+  function renderAuditionActions() {
+    return (
+      <>
+        <Action title="Keep and Next" icon={Icon.Heart} shortcut={{ modifiers: ["cmd"], key: "y" }} onAction={() => keepAuditionItem()} />
+        <Action title="Skip to Next" icon={Icon.Forward} shortcut={{ modifiers: ["cmd"], key: "n" }} onAction={() => skipAuditionItem()} />
+        <Action title="Stop Audition" icon={Icon.Stop} shortcut={{ modifiers: ["cmd"], key: "." }} onAction={() => stopAudition()} />
+      </>
+    );
+  }
+
+  function renderSortActions() {
+    const current = SORT_ORDERS.find((o) => o.value === sortOrderRef.current) ?? SORT_ORDERS[0];
+    return (
+      <ActionPanel.Submenu
+        title={`Sort By: ${current.title}`}
+        icon={Icon.BarChart}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "o" }}
+      >
+        {SORT_ORDERS.map((o) => (
+          <Action
+            key={o.value}
+            title={o.title}
+            icon={o.value === sortOrderRef.current && shuffleSeedRef.current === null ? Icon.Checkmark : undefined}
+            onAction={() => updateSortOrder(o.value)}
+          />
+        ))}
+      </ActionPanel.Submenu>
+    );
+  }
+
+  // Preview start, length, volume, loudness matching and loop; shortcuts nudge
+  // start and volume
+  function renderPreviewSettingsActions() {
+    const { offset, lengthSec, volume, loop, loudnessTarget, rate, preservePitch, reverse } = previewSettingsRef.current;
+    const offsetChoices: { title: string; value: PreviewOffset }[] = [
+      { title: "Start of File", value: { kind: "start" } },
+      { title: "Skip Leading Silence", value: { kind: "skipSilence" } },
+      ...PREVIEW_OFFSET_PERCENTS.map((p) => ({ title: `${p}%`, value: { kind: "percent", value: p } as PreviewOffset })),
+      ...[5, 10, 30, 60].map((sec) => ({ title: `${sec}s`, value: { kind: "seconds", value: sec } as PreviewOffset })),
+    ];
+    return (
+      <>
+        <ActionPanel.Submenu title={`Preview Start: ${describeOffset(offset)}`} icon={Icon.Forward}>
+          {offsetChoices.map((choice) => (
+            <Action
+              key={choice.title}
+              title={choice.title}
+              icon={describeOffset(choice.value) === describeOffset(offset) ? Icon.Checkmark : undefined}
+              onAction={() => updatePreviewSettings({ offset: choice.value })}
+            />
+          ))}
+        </ActionPanel.Submenu>
+        <Action
+          title="Nudge Preview Start Forward"
+          icon={Icon.ArrowRight}
+          shortcut={{ modifiers: ["cmd"], key: "]" }}
+          onAction={() => updatePreviewSettings({ offset: nudgeOffset(offset, 1) })}
+        />
+        <Action
+          title="Nudge Preview Start Back"
+          icon={Icon.ArrowLeft}
+          shortcut={{ modifiers: ["cmd"], key: "[" }}
+          onAction={() => updatePreviewSettings({ offset: nudgeOffset(offset, -1) })}
+        />
+        <ActionPanel.Submenu title={`Autoplay Length: ${describeLength(lengthSec)}`} icon={Icon.Clock}>
+          {PREVIEW_LENGTHS.map((len) => (
+            <Action
+              key={len}
+              title={len > 0 ? `${len} Seconds` : "Whole File"}
+              icon={len === lengthSec ? Icon.Checkmark : undefined}
+              onAction={() => updatePreviewSettings({ lengthSec: len })}
+            />
+          ))}
+        </ActionPanel.Submenu>
+        <ActionPanel.Submenu title={`Preview Volume: ${describeVolume(volume)}`} icon={Icon.SpeakerHigh}>
+          {PREVIEW_VOLUMES.map((v) => (
+            <Action
+              key={v}
+              title={describeVolume(v)}
+              icon={v === volume ? Icon.Checkmark : undefined}
+              onAction={() => updatePreviewSettings({ volume: v })}
+            />
+          ))}
+        </ActionPanel.Submenu>
+        <Action
+          title="Preview Volume Up"
+          icon={Icon.SpeakerUp}
+          shortcut={{ modifiers: ["cmd", "opt"], key: "arrowUp" }}
+          onAction={() => updatePreviewSettings({ volume: nudgeVolume(volume, 1) })}
+        />
+        <Action
+          title="Preview Volume Down"
+          icon={Icon.SpeakerDown}
+          shortcut={{ modifiers: ["cmd", "opt"], key: "arrowDown" }}
+          onAction={() => updatePreviewSettings({ volume: nudgeVolume(volume, -1) })}
+        />
+        <ActionPanel.Submenu title={`Loudness Match: ${describeLoudnessTarget(loudnessTarget)}`} icon={Icon.Gauge}>
+          {[...LOUDNESS_TARGETS, null].map((target) => (
+            <Action
+              key={String(target)}
+              title={describeLoudnessTarget(target)}
+              icon={target === loudnessTarget ? Icon.Checkmark : undefined}
+              onAction={() => updatePreviewSettings({ loudnessTarget: target })}
+            />
+          ))}
+        </ActionPanel.Submenu>
+        <Action
+          title={loop ? "Disable Loop Preview" : "Enable Loop Preview"}
+          icon={Icon.Repeat}
+          shortcut={{ modifiers: ["cmd"], key: "l" }}
+          onAction={() => updatePreviewSettings({ loop: !loop })}
+        />
+        <ActionPanel.Submenu title={`Preview Speed: ${describeRate(rate)}`} icon={Icon.Hourglass}>
+          {PLAYBACK_RATES.map((r) => (
+            <Action
+              key={r}
+              title={describeRate(r)}
+              icon={r === rate ? Icon.Checkmark : undefined}
+              onAction={() => updatePreviewSettings({ rate: r })}
+            />
+          ))}
+        </ActionPanel.Submenu>
+        <Action
+          title={preservePitch ? "Let Pitch Follow Speed" : "Keep Pitch When Changing Speed"}
+          icon={Icon.Music}
+          onAction={() => updatePreviewSettings({ preservePitch: !preservePitch })}
+        />
+        <Action
+          title={reverse ? "Play Forwards" : "Reverse Preview"}
+          icon={Icon.Rewind}
+          shortcut={{ modifiers: ["ctrl"], key: "r" }}
+          onAction={() => updatePreviewSettings({ reverse: !reverse })}
+        />
+      </>
+    );
+  }
+
+  function categoryTitle(value: string): string {
+    if (value.startsWith(TAG_PREFIX)) return `#${value.slice(TAG_PREFIX.length)}`;
+    const parsed = parseCategoryValue(value);
+    if (!parsed) return value;
+    const root = roots.find((r) => r.id === parsed.rootId);
+    const label = root?.label ?? parsed.rootId;
+    if (parsed.folder === WHOLE_ROOT) return label;
+    const folder = parsed.folder.split(path.sep).join(" › ");
+    return roots.length > 1 ? `${label} › ${folder}` : folder;
+  }
+
+  const offlineRoots = categories.filter((c) => !c.online).map((c) => c.root);
+  const previewSummary = [
+    previewSettings.offset.kind !== "start" ? `from ${describeOffset(previewSettings.offset)}` : "",
+    previewSettings.volume < 1 ? describeVolume(previewSettings.volume) : "",
+    previewSettings.loudnessTarget !== null ? describeLoudnessTarget(previewSettings.loudnessTarget) : "",
+    previewSettings.loop ? "loop" : "",
+    isTreated(previewSettings) ? describeTreatment(previewSettings) : "",
+  ]
+    .filter(Boolean)
+    .map((part) => ` · ${part}`)
+    .join("");
+  const knownTags = useMemo(() => allTags(tags), [tags]);
+
+  // A folder picked below the top level needs its own dropdown entry
+  const selectedNestedFolder = (() => {
+    const parsed = parseCategoryValue(selectedCategory);
+    if (!parsed || parsed.folder === WHOLE_ROOT) return null;
+    const cat = categories.find((c) => c.root.id === parsed.rootId);
+    return cat && !cat.folders.includes(parsed.folder) ? parsed : null;
+  })();
 
-  async function sendAllFilteredToAE() {
-    if (filtered.length === 0) {
+  function browseFoldersTarget() {
+    const parsed = parseCategoryValue(selectedCategory);
+    const onlineRoots = roots.filter((r) => categories.some((c) => c.root.id === r.id && c.online));
+    const root = onlineRoots.length === 1 ? onlineRoots[0] : undefined;
+    const startFolder =
+      root && parsed?.rootId === root.id && parsed.folder !== WHOLE_ROOT && parsed.folder !== ROOT_CATEGORY
+        ? parsed.folder
+        : "";
+    return (
+      <FolderBrowser
+        roots={onlineRoots}
+        items={items}
+        root={root}
+        folder={startFolder}
+        includeSubfolders={includeSubfolders}
+        onChoose={chooseFolder}
+        onIncludeSubfoldersChange={updateIncludeSubfolders}
+        renderItemActions={renderItemActions}
+      />
+    );
+  }
+
+  // The whole stack as layers of the active comp, aligned from the playhead
+  async function sendLayerStackToAE() {
+    const stack = layerStackRef.current;
+    if (stack.length === 0) return;
+    try {
+      const running = await isAfterEffectsRunning();
+      if (!running) {
+        await showToast({ style: Toast.Style.Failure, title: "Open After Effects first", message: "Open a project with an active comp, then retry." });
+        return;
+      }
+
+      const dir = await conversionDir();
+      const layers = [];
+      for (const layer of stack) {
+        const importable = await importableFor(layer.path, dir);
+        if (!importable) return;
+        layers.push({ ...layer, path: importable });
+      }
+
+      await closeMainWindow({ popToRootType: PopToRootType.Suspended });
+
+      const preset = defaultImportPreset();
+      const result = await runOnDemand({ action: "import_layers", layers, levels: preset });
+      if (result.ok) {
+        appendLog([`On-demand bridge imported layer stack: ${stack.map((l) => path.basename(l.path)).join(", ")}${preset ? ` with preset ${preset.name}` : ""}`], "audio-files");
+        for (const layer of stack) {
+          await addToRecentlyUsed(layer.path);
+        }
+      } else {
+        appendLog([`On-demand bridge failed to import layer stack`, `error: ${result.error}`, `layers created: ${result.result?.layers?.length ?? 0}`], "audio-files");
+        await showHUD(`Layer stack import failed: ${result.error}`);
+      }
+    } catch (e: any) {
+      appendLog([`sendLayerStackToAE error: ${e?.message || e}`], "audio-files");
+      await showHUD(`Layer stack import failed: ${e?.message || e}`);
+    }
+  }
+
+  function renderLayerActions(layer: StackLayer, item: AudioItem | undefined) {
+    return (
+      <ActionPanel>
+        <Action
+          title={stackPlayingRef.current ? "Stop Layer Stack" : "Play Layer Stack"}
+          icon={stackPlayingRef.current ? Icon.Stop : Icon.Play}
+          onAction={() => (stackPlayingRef.current ? stopLayerStack() : playLayerStack())}
+        />
+        <Action
+          title="Send Layer Stack to After Effects"
+          icon={Icon.AppWindow}
+          shortcut={{ modifiers: ["cmd", "opt"], key: "l" }}
+          onAction={() => sendLayerStackToAE()}
+        />
+        <ActionPanel.Section title="Layer">
+          <ActionPanel.Submenu title={`Offset: ${formatOffset(layer.offsetSec)}`} icon={Icon.Clock}>
+            {LAYER_OFFSETS.map((sec) => (
+              <Action
+                key={sec}
+                title={formatOffset(sec)}
+                icon={sec === layer.offsetSec ? Icon.Checkmark : undefined}
+                onAction={() => setLayer(layer.path, { offsetSec: sec })}
+              />
+            ))}
+          </ActionPanel.Submenu>
+          <Action
+            title="Nudge Later"
+            icon={Icon.ArrowRight}
+            shortcut={{ modifiers: ["ctrl", "opt"], key: "arrowRight" }}
+            onAction={() => setLayer(layer.path, { offsetSec: layer.offsetSec + OFFSET_NUDGE_SEC })}
+          />
+          <Action
+            title="Nudge Earlier"
+            icon={Icon.ArrowLeft}
+            shortcut={{ modifiers: ["ctrl", "opt"], key: "arrowLeft" }}
+            onAction={() => setLayer(layer.path, { offsetSec: layer.offsetSec - OFFSET_NUDGE_SEC })}
+          />
+          <ActionPanel.Submenu title={`Gain: ${formatGain(layer.gainDb)}`} icon={Icon.SpeakerHigh}>
+            {LAYER_GAINS.map((db) => (
+              <Action
+                key={db}
+                title={formatGain(db)}
+                icon={db === layer.gainDb ? Icon.Checkmark : undefined}
+                onAction={() => setLayer(layer.path, { gainDb: db })}
+              />
+            ))}
+          </ActionPanel.Submenu>
+          <Action
+            title="Gain Up"
+            icon={Icon.SpeakerUp}
+            shortcut={{ modifiers: ["ctrl", "opt"], key: "arrowUp" }}
+            onAction={() => setLayer(layer.path, { gainDb: layer.gainDb + 1 })}
+          />
+          <Action
+            title="Gain Down"
+            icon={Icon.SpeakerDown}
+            shortcut={{ modifiers: ["ctrl", "opt"], key: "arrowDown" }}
+            onAction={() => setLayer(layer.path, { gainDb: layer.gainDb - 1 })}
+          />
+          <Action
+            title="Remove from Layer Stack"
+            icon={Icon.Minus}
+            shortcut={{ modifiers: ["ctrl"], key: "x" }}
+            onAction={() => toggleLayer(layer.path)}
+          />
+          <Action
+            title="Clear Layer Stack"
+            icon={Icon.Trash}
+            shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+            onAction={() => updateLayerStack([])}
+          />
+        </ActionPanel.Section>
+        {item ? <ActionPanel.Section title={item.name}>{renderItemActions(item)}</ActionPanel.Section> : null}
+      </ActionPanel>
+    );
+  }
+
+  // Import the visible list as one After Effects job laid out by `layout`,
+  // with progress and a per-file report at the end
+  async function importAllFiltered(layout: OnDemandBatchLayout) {
+    const files = results.map((i) => i.path);
+    if (files.length === 0) {
       await showToast({ style: Toast.Style.Failure, title: "No items to import" });
       return;
     }
@@ -732,27 +2505,76 @@ export default function Command() {
         return;
       }
 
-      await closeMainWindow({ popToRootType: PopToRootType.Suspended });
+      const controller = new AbortController();
+      const toast = await showToast({
+        style: Toast.Style.Animated,
+        title: "Preparing Sounds…",
+        message: `0 of ${files.length}`,
+        primaryAction: {
+          title: "Cancel",
+          onAction: () => {
+            controller.abort();
+            toast.title = "Cancelling…";
+          },
+        },
+      });
 
-      let imported = 0;
-      for (const it of filtered) {
+      // Files are skipped until they are imported or fail
+      const entries: BatchImportEntry[] = files.map((p) => ({ path: p, status: "skipped" }));
+      const dir = await conversionDir();
+      const sounds: OnDemandSound[] = [];
+      const soundIndexes: number[] = [];
+      for (let i = 0; i < files.length && !controller.signal.aborted; i++) {
+        toast.message = `${i + 1} of ${files.length} · ${path.basename(files[i])}`;
         try {
-          await runOnDemand({
-            action: "import_audio",
-            path: it.path,
-            requireActiveComp: false
+          sounds.push(await batchSourceFor(files[i], dir));
+          soundIndexes.push(i);
+        } catch (e: any) {
+          entries[i] = { path: files[i], status: "failed", detail: e?.message || String(e) };
+        }
+      }
+
+      let cancelled = controller.signal.aborted;
+      const preset = defaultImportPreset();
+      if (!cancelled && sounds.length > 0) {
+        toast.title = "Importing to After Effects…";
+        toast.message = `0 of ${sounds.length}`;
+        const result = await runOnDemand(
+          { action: "import_batch", files: sounds, layout, levels: preset },
+          { signal: controller.signal, onProgress: (done, total) => (toast.message = `${done} of ${total}`) }
+        );
+        if (result.ok) {
+          (result.result?.files ?? []).forEach((file, k) => {
+            const i = soundIndexes[k];
+            entries[i] = file.ok
+              ? { path: files[i], status: "imported", detail: file.error ?? (file.layer ? `Layer ${file.layer.index} in comp ${file.layer.compId}` : "Project only, no active comp") }
+              : { path: files[i], status: "failed", detail: file.error };
           });
-          imported++;
-        } catch {}
+          cancelled = result.result?.cancelled ?? false;
+        } else {
+          for (const i of soundIndexes) entries[i] = { path: files[i], status: "failed", detail: result.error };
+          appendLog([`Batch import failed`, `error: ${result.error}`, `stack: ${result.stack ?? ""}`], "audio-files");
+        }
       }
 
-      // Log and update recently used
-      appendLog([`Batch import complete: ${imported}/${filtered.length}`], "audio-files");
-      for (const it of filtered) {
-        await addToRecentlyUsed(it.path);
+      const imported = entries.filter((e) => e.status === "imported");
+      const failed = entries.filter((e) => e.status === "failed");
+      appendLog([
+        `Batch import ${cancelled ? "cancelled" : "complete"} (${describeBatchLayout(layout)}${preset ? `, preset ${preset.name}` : ""}): ${imported.length}/${files.length}`,
+        ...failed.map((e) => `failed: ${path.basename(e.path)}: ${e.detail ?? ""}`),
+      ], "audio-files");
+      for (const e of imported) {
+        await addToRecentlyUsed(e.path);
       }
+
+      toast.style = failed.length > 0 ? Toast.Style.Failure : Toast.Style.Success;
+      toast.title = cancelled ? "Import Cancelled" : `Imported ${imported.length} of ${files.length}`;
+      toast.message = failed.length > 0 ? `${failed.length} failed` : undefined;
+      toast.primaryAction = undefined;
+      push(<BatchImportReport entries={entries} layout={layout} cancelled={cancelled} items={itemsRef.current} renderItemActions={renderItemActions} />);
     } catch (e: any) {
       appendLog([`Batch import error: ${e?.message || e}`], "audio-files");
+      await showToast({ style: Toast.Style.Failure, title: "Batch Import Failed", message: e?.message || String(e) });
     }
   }
 
@@ -764,7 +2586,7 @@ export default function Command() {
     );
   }
 
-  if (items.length === 0) {
+  if (items.length === 0 && offlineRoots.length === 0) {
     return (
       <List searchBarPlaceholder="Search audio files...">
         <List.EmptyView
@@ -779,35 +2601,103 @@ export default function Command() {
   return (
     <List
       isLoading={isLoading}
-      searchBarPlaceholder="Search audio files..."
+      searchBarPlaceholder="Search audio files... (tag: dur:<2s ext: cat: sr: fav: lufs: bpm: key: -exclude)"
+      filtering={false}
+      onSearchTextChange={setSearchText}
+      isShowingDetail={showDetail}
+      selectedItemId={selectionOverride}
       searchBarAccessory={
-        <List.Dropdown tooltip="Filter by Category" value={selectedCategory} onChange={(v) => { setSelectedCategory(v); LocalStorage.setItem("audioFilesSelectedCategory", v); }}>
+        <List.Dropdown tooltip="Filter by Category" value={selectedCategory} onChange={(v) => chooseCategory(v)}>
+          <List.Dropdown.Item title="All" value="All" />
+          <List.Dropdown.Item title="Favorites" value="Favorites" icon={Icon.Heart} />
           {categories.map((c) => (
-            <List.Dropdown.Item key={c} title={c} value={c} />
+            <List.Dropdown.Section key={c.root.id} title={c.online ? c.root.label : `${c.root.label} (Offline)`}>
+              <List.Dropdown.Item
+                title={`All in ${c.root.label}`}
+                value={categoryValue(c.root.id)}
+                icon={c.online ? Icon.HardDrive : Icon.WifiDisabled}
+              />
+              {c.folders.map((f) => (
+                <List.Dropdown.Item key={f} title={f} value={categoryValue(c.root.id, f)} icon={Icon.Folder} />
+              ))}
+              {selectedNestedFolder && selectedNestedFolder.rootId === c.root.id ? (
+                <List.Dropdown.Item
+                  title={selectedNestedFolder.folder.split(path.sep).join(" › ")}
+                  value={selectedCategory}
+                  icon={Icon.ChevronRight}
+                />
+              ) : null}
+            </List.Dropdown.Section>
           ))}
+          {knownTags.length > 0 || selectedCategory.startsWith(TAG_PREFIX) ? (
+            <List.Dropdown.Section title="Tags">
+              {[...new Set([...knownTags, ...(selectedCategory.startsWith(TAG_PREFIX) ? [selectedCategory.slice(TAG_PREFIX.length)] : [])])].map((t) => (
+                <List.Dropdown.Item key={t} title={t} value={`${TAG_PREFIX}${t}`} icon={Icon.Tag} />
+              ))}
+            </List.Dropdown.Section>
+          ) : null}
         </List.Dropdown>
       }
       onSelectionChange={(id) => handleSelectionChange((id as string) || null)}
       actions={
         <ActionPanel>
+          {audition ? (
+            renderAuditionActions()
+          ) : (
+            <Action
+              title="Start Audition"
+              icon={Icon.PlayFilled}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+              onAction={() => startAudition()}
+            />
+          )}
           <Action
             title={autoplayEnabled ? "Disable Autoplay" : "Enable Autoplay"}
             icon={autoplayEnabled ? Icon.Pause : Icon.Play}
             shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
             onAction={() => toggleAutoplay()}
           />
+          <Action
+            title={showDetail ? "Hide Waveform Details" : "Show Waveform Details"}
+            icon={Icon.Sidebar}
+            shortcut={{ modifiers: ["cmd"], key: "i" }}
+            onAction={() => toggleDetail()}
+          />
           <Action
             title={shuffleSeed === null ? "Shuffle List" : "Reshuffle List"}
             icon={Icon.RotateClockwise}
             shortcut={{ modifiers: ["cmd"], key: "r" }}
             onAction={() => shuffleNow()}
           />
+          {renderSortActions()}
+          <Action.Push
+            title="Browse Folders…"
+            icon={Icon.Folder}
+            shortcut={{ modifiers: ["cmd"], key: "b" }}
+            target={browseFoldersTarget()}
+          />
+          <Action.Push
+            title="Find Duplicates…"
+            icon={Icon.CopyClipboard}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+            target={duplicatesTarget()}
+          />
           <Action
-            title="Import All Filtered to After Effects"
-            icon={Icon.Bolt}
-            shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
-            onAction={() => sendAllFilteredToAE()}
+            title={includeSubfolders ? "Exclude Subfolders" : "Include Subfolders"}
+            icon={includeSubfolders ? Icon.Minus : Icon.Plus}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "u" }}
+            onAction={() => updateIncludeSubfolders(!includeSubfolders)}
           />
+          <ActionPanel.Submenu title="Import All Filtered to After Effects" icon={Icon.Bolt} shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}>
+            {[
+              { kind: "stack" } as const,
+              { kind: "sequential", gapSec: 0 } as const,
+              ...BATCH_GAPS_SEC.map((gapSec) => ({ kind: "sequential", gapSec }) as const),
+              { kind: "markers" } as const,
+            ].map((layout) => (
+              <Action key={describeBatchLayout(layout)} title={describeBatchLayout(layout)} onAction={() => importAllFiltered(layout)} />
+            ))}
+          </ActionPanel.Submenu>
           <Action
             title="Stop All Audio"
             icon={Icon.Stop}
@@ -817,11 +2707,50 @@ export default function Command() {
         </ActionPanel>
       }
     >
-      <List.Section title={`${selectedCategory} (${filtered.length} files)`} subtitle={autoplayEnabled ? "Autoplay ON - Press ↑/↓ to audition" : "Autoplay OFF - Press Enter to play"}>
-        {filtered.map((item) => {
+      {offlineRoots.length > 0 ? (
+        <List.Section title="Offline Libraries">
+          {offlineRoots.map((root) => (
+            <List.Item
+              key={`offline:${root.id}`}
+              id={`offline:${root.id}`}
+              title={root.label}
+              subtitle={root.path}
+              icon={Icon.WifiDisabled}
+              accessories={[{ tag: "Offline" }]}
+              actions={
+                <ActionPanel>
+                  <Action title="Retry" icon={Icon.ArrowClockwise} onAction={() => loadItems()} />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      ) : null}
+      {layerStack.length > 0 ? (
+        <List.Section title={`Layer Stack (${layerStack.length})`} subtitle={stackPlaying ? "Playing" : undefined}>
+          {layerStack.map((layer) => {
+            const item = items.find((i) => i.path === layer.path);
+            return (
+              <List.Item
+                key={`layer:${layer.path}`}
+                id={`layer:${layer.path}`}
+                title={path.basename(layer.path)}
+                subtitle={item?.category}
+                icon={Icon.Layers}
+                accessories={[{ tag: formatOffset(layer.offsetSec), tooltip: "Offset" }, { tag: formatGain(layer.gainDb), tooltip: "Gain" }]}
+                detail={showDetail && item ? renderDetail(item) : undefined}
+                actions={renderLayerActions(layer, item)}
+              />
+            );
+          })}
+        </List.Section>
+      ) : null}
+      <List.Section title={`${categoryTitle(selectedCategory)} (${results.length} files)`} subtitle={`${audition ? `Auditioning ${audition.position + 1}/${audition.queue.length} · ${audition.kept.length} kept` : autoplayEnabled ? "Autoplay ON - Press ↑/↓ to audition" : "Autoplay OFF - Press Enter to play"}${previewSummary}`}>
+        {results.map((item) => {
           const fileSizeKB = Math.round(item.size / 1024);
           const title = item.name;
-          const subtitle = `${item.category} • ${fileSizeKB} KB${favorites.includes(item.path) ? " ❤️" : ""}`;
+          const rootLabel = roots.length > 1 ? `${item.root} › ` : "";
+          const subtitle = `${rootLabel}${item.category} • ${fileSizeKB} KB${favorites.includes(item.path) ? " ❤️" : ""}`;
           return (
             <List.Item
               key={item.path}
@@ -829,78 +2758,31 @@ export default function Command() {
               title={title}
               subtitle={subtitle}
               icon={Icon.SpeakerOn}
+              accessories={showDetail ? undefined : [...tagAccessories(item), ...musicAccessories(item), ...loudnessAccessories(item), ...metadataAccessories(item)]}
+              detail={showDetail ? renderDetail(item) : undefined}
               actions={
                 <ActionPanel>
-                  <Action
-                    title={currentlyPlaying === item.path ? "Stop Playback" : "Play Audio"}
-                    icon={currentlyPlaying === item.path ? Icon.Stop : Icon.Play}
-                    onAction={() => togglePlayback(item.path)}
-                  />
-                  <Action
-                    title={shuffleSeed === null ? "Shuffle List" : "Reshuffle List"}
-                    icon={Icon.RotateClockwise}
-                    shortcut={{ modifiers: ["cmd"], key: "r" }}
-                    onAction={() => shuffleNow()}
-                  />
-                  <Action
-                    title={autoplayEnabled ? "Disable Autoplay" : "Enable Autoplay"}
-                    icon={autoplayEnabled ? Icon.Pause : Icon.Play}
-                    shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
-                    onAction={() => toggleAutoplay()}
-                  />
-                  <Action
-                    title={favorites.includes(item.path) ? "Remove from Favorites" : "Add to Favorites"}
-                    icon={favorites.includes(item.path) ? Icon.HeartDisabled : Icon.Heart}
-                    shortcut={{ modifiers: ["cmd"], key: "f" }}
-                    onAction={() => toggleFavorite(item.path)}
-                  />
-                  <Action
-                    title="Send to After Effects"
-                    icon={Icon.AppWindow}
-                    shortcut={{ modifiers: ["cmd"], key: "s" }}
-                    onAction={() => sendToAfterEffects(item.path)}
-                  />
-                  <Action
-                    title="Send via AE Restart (Fallback)"
-                    icon={Icon.RotateClockwise}
-                    shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
-                    onAction={() => sendToAfterEffectsViaRestart(item.path)}
-                  />
-                  <Action
-                    title="Copy AE Debug Log"
-                    icon={Icon.Clipboard}
-                    shortcut={{ modifiers: ["cmd"], key: "d" }}
-                    onAction={() => copyLogToClipboard()}
-                  />
-                  <Action
-                    title="Clear AE Debug Log"
-                    icon={Icon.Trash}
-                    shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
-                    onAction={() => clearLogFile()}
-                  />
-                  <Action
-                    title="Open in Finder"
-                    icon={Icon.Finder}
-                    onAction={() => {
-                      stopPlayback();
-                      // reveal in Finder via AppleScript-free approach
-                      const script = `osascript -e 'tell application "Finder" to reveal POSIX file "${item.path.replace(/'/g, "'\\''")}"' -e 'tell application "Finder" to activate'`;
-                      spawn("/bin/zsh", ["-lc", script], { stdio: "ignore" });
-                    }}
-                  />
-
-                  <Action
-                    title="Import via On-Demand Bridge"
-                    icon={Icon.Bolt}
-                    shortcut={{ modifiers: ["cmd", "opt"], key: "s" }}
-                    onAction={() => sendViaBridge(item.path)}
-                  />
-                  <Action
-                    title="Stop All Audio"
-                    icon={Icon.Stop}
-                    shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
-                    onAction={() => stopAllAudio()}
-                  />
+                  {renderItemActions(item)}
+                  <ActionPanel.Section>
+                    <Action.Push
+                      title="Browse Folders…"
+                      icon={Icon.Folder}
+                      shortcut={{ modifiers: ["cmd"], key: "b" }}
+                      target={browseFoldersTarget()}
+                    />
+                    <Action.Push
+                      title="Find Duplicates…"
+                      icon={Icon.CopyClipboard}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+                      target={duplicatesTarget()}
+                    />
+                    <Action
+                      title={includeSubfolders ? "Exclude Subfolders" : "Include Subfolders"}
+                      icon={includeSubfolders ? Icon.Minus : Icon.Plus}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "u" }}
+                      onAction={() => updateIncludeSubfolders(!includeSubfolders)}
+                    />
+                  </ActionPanel.Section>
                 </ActionPanel>
               }
             />
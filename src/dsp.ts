@@ -0,0 +1,163 @@
+// Small signal-processing helpers shared by the analysers.
+
+export interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * A biquad filter with its state, direct form II transposed. The state carries
+ * over between calls, so a signal can be fed through chunk by chunk.
+ */
+export class BiquadState {
+  private z1 = 0;
+  private z2 = 0;
+
+  constructor(private readonly f: Biquad) {}
+
+  process(x: number): number {
+    const y = this.f.b0 * x + this.z1;
+    this.z1 = this.f.b1 * x - this.f.a1 * y + this.z2;
+    this.z2 = this.f.b2 * x - this.f.a2 * y;
+    return y;
+  }
+}
+
+// Coefficients after the RBJ audio EQ cookbook
+function cookbook(
+  frequency: number,
+  sampleRate: number,
+  q: number,
+  numerator: (cosW: number, alpha: number) => [number, number, number]
+): Biquad {
+  const w = (2 * Math.PI * Math.min(frequency, sampleRate * 0.49)) / sampleRate;
+  const cosW = Math.cos(w);
+  const alpha = Math.sin(w) / (2 * q);
+  const a0 = 1 + alpha;
+  const [b0, b1, b2] = numerator(cosW, alpha);
+  return {
+    b0: b0 / a0,
+    b1: b1 / a0,
+    b2: b2 / a0,
+    a1: (-2 * cosW) / a0,
+    a2: (1 - alpha) / a0,
+  };
+}
+
+export function lowPass(
+  frequency: number,
+  sampleRate: number,
+  q = Math.SQRT1_2
+): Biquad {
+  return cookbook(frequency, sampleRate, q, (cosW) => [
+    (1 - cosW) / 2,
+    1 - cosW,
+    (1 - cosW) / 2,
+  ]);
+}
+
+export function highPass(
+  frequency: number,
+  sampleRate: number,
+  q = Math.SQRT1_2
+): Biquad {
+  return cookbook(frequency, sampleRate, q, (cosW) => [
+    (1 + cosW) / 2,
+    -(1 + cosW),
+    (1 + cosW) / 2,
+  ]);
+}
+
+// Band pass with 0 dB gain at the centre frequency
+export function bandPass(
+  frequency: number,
+  sampleRate: number,
+  q = Math.SQRT1_2
+): Biquad {
+  return cookbook(frequency, sampleRate, q, (_cosW, alpha) => [
+    alpha,
+    0,
+    -alpha,
+  ]);
+}
+
+/**
+ * Radix-2 FFT of a fixed size, with its twiddle factors and bit-reversal table
+ * computed once.
+ */
+export class Fft {
+  private readonly cos: Float64Array;
+  private readonly sin: Float64Array;
+  private readonly reversed: Uint32Array;
+  private readonly re: Float64Array;
+  private readonly im: Float64Array;
+
+  constructor(readonly size: number) {
+    if (size < 2 || (size & (size - 1)) !== 0) {
+      throw new Error(`FFT size must be a power of two, got ${size}`);
+    }
+    this.cos = new Float64Array(size / 2);
+    this.sin = new Float64Array(size / 2);
+    for (let i = 0; i < size / 2; i++) {
+      this.cos[i] = Math.cos((2 * Math.PI * i) / size);
+      this.sin[i] = -Math.sin((2 * Math.PI * i) / size);
+    }
+    const bits = Math.log2(size);
+    this.reversed = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+      let r = 0;
+      for (let b = 0; b < bits; b++) r |= ((i >> b) & 1) << (bits - 1 - b);
+      this.reversed[i] = r;
+    }
+    this.re = new Float64Array(size);
+    this.im = new Float64Array(size);
+  }
+
+  /**
+   * Magnitudes of bins 0..size/2 of a real signal, which is multiplied by
+   * `window` first when given. `input` shorter than the size is zero padded.
+   */
+  magnitudes(
+    input: ArrayLike<number>,
+    window?: Float64Array,
+    out = new Float64Array(this.size / 2 + 1)
+  ): Float64Array {
+    const { size, re, im } = this;
+    for (let i = 0; i < size; i++) {
+      const x = i < input.length ? input[i] : 0;
+      re[this.reversed[i]] = window ? x * window[i] : x;
+      im[this.reversed[i]] = 0;
+    }
+    for (let len = 2; len <= size; len <<= 1) {
+      const half = len >> 1;
+      const step = size / len;
+      for (let start = 0; start < size; start += len) {
+        for (let k = 0; k < half; k++) {
+          const wr = this.cos[k * step];
+          const wi = this.sin[k * step];
+          const a = start + k;
+          const b = a + half;
+          const tr = re[b] * wr - im[b] * wi;
+          const ti = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - tr;
+          im[b] = im[a] - ti;
+          re[a] += tr;
+          im[a] += ti;
+        }
+      }
+    }
+    for (let k = 0; k <= size / 2; k++) out[k] = Math.hypot(re[k], im[k]);
+    return out;
+  }
+}
+
+export function hannWindow(size: number): Float64Array {
+  const window = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  }
+  return window;
+}
@@ -0,0 +1,266 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  Icon,
+  List,
+  Toast,
+  confirmAlert,
+  showToast,
+  trash,
+} from "@raycast/api";
+import { useEffect, useState } from "react";
+import path from "path";
+import { spawn } from "child_process";
+import { AudioItem } from "./audio-item";
+import { formatDuration } from "./audio-metadata";
+import { TagMap } from "./tags-store";
+import {
+  DuplicateGroup,
+  DuplicateSources,
+  findDuplicates,
+  mergeDuplicateFavorites,
+  mergeDuplicateTags,
+} from "./duplicates";
+
+interface DuplicateFinderProps {
+  items: AudioItem[];
+  favorites: string[];
+  tags: TagMap;
+  contentHash: DuplicateSources["contentHash"];
+  fullHash: DuplicateSources["fullHash"];
+  fingerprint: DuplicateSources["fingerprint"];
+  // Carry favorites and tags of the removed copies over to the kept one
+  onMerge: (keep: string, removed: string[]) => void;
+  renderItemActions: (item: AudioItem) => JSX.Element;
+}
+
+/**
+ * Groups of identical and near-identical files, with actions to keep one copy
+ * and move the others to the Trash.
+ */
+export function DuplicateFinder(props: DuplicateFinderProps) {
+  const {
+    items,
+    contentHash,
+    fullHash,
+    fingerprint,
+    onMerge,
+    renderItemActions,
+  } = props;
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  // Pushed views don't see parent re-renders, so mirror what merges change
+  const [favorites, setFavorites] = useState(props.favorites);
+  const [tags, setTags] = useState(props.tags);
+
+  useEffect(() => {
+    let cancelled = false;
+    let toast: Toast | undefined;
+    showToast({ style: Toast.Style.Animated, title: "Finding Duplicates" })
+      .then((t) => (toast = t))
+      .catch(() => undefined);
+    findDuplicates(items, {
+      contentHash,
+      fullHash,
+      fingerprint,
+      isCancelled: () => cancelled,
+      onProgress: (stage, done, total) => {
+        if (toast) toast.message = `${stage} ${done + 1}/${total}`;
+      },
+    })
+      .then((found) => {
+        if (cancelled) return;
+        setGroups(found);
+        const copies = found.reduce((n, g) => n + g.items.length - 1, 0);
+        showToast({
+          style: Toast.Style.Success,
+          title:
+            found.length > 0 ? `${copies} Duplicate Files` : "No Duplicates",
+          message: found.length > 0 ? `${found.length} groups` : undefined,
+        });
+      })
+      .catch((e) => {
+        console.error("Duplicate search failed", e);
+        if (cancelled) return;
+        setGroups([]);
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Duplicate Search Failed",
+          message: e?.message,
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  function removeFromGroups(removed: string[]) {
+    const gone = new Set(removed);
+    setGroups((prev) =>
+      (prev ?? [])
+        .map((g) => ({
+          ...g,
+          items: g.items.filter((it) => !gone.has(it.path)),
+        }))
+        .filter((g) => g.items.length > 1)
+    );
+  }
+
+  async function trashCopies(keep: string, removed: string[]) {
+    try {
+      await trash(removed);
+      onMerge(keep, removed);
+      const mergedFavorites = mergeDuplicateFavorites(favorites, keep, removed);
+      if (mergedFavorites) setFavorites(mergedFavorites.next);
+      const mergedTags = mergeDuplicateTags(tags, keep, removed);
+      if (mergedTags) setTags(mergedTags);
+      removeFromGroups(removed);
+      await showToast({
+        style: Toast.Style.Success,
+        title:
+          removed.length === 1
+            ? "Moved to Trash"
+            : `Moved ${removed.length} Files to Trash`,
+        message: `Kept ${path.basename(keep)}`,
+      });
+    } catch (e: any) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Could Not Move to Trash",
+        message: e?.message,
+      });
+    }
+  }
+
+  async function keepOnly(group: DuplicateGroup, item: AudioItem) {
+    const others = group.items.filter((it) => it !== item).map((it) => it.path);
+    // Only byte-for-byte copies are called copies
+    const noun =
+      group.kind === "identical"
+        ? others.length === 1
+          ? "copy"
+          : "copies"
+        : others.length === 1
+        ? "file with the same audio"
+        : "files with the same audio";
+    const confirmed = await confirmAlert({
+      title: `Keep ${item.name}?`,
+      message: `${
+        others.length === 1
+          ? `The other ${noun}`
+          : `The other ${others.length} ${noun}`
+      } will be moved to the Trash. Favorites and tags are kept on this file.`,
+      primaryAction: {
+        title: "Move to Trash",
+        style: Alert.ActionStyle.Destructive,
+      },
+    });
+    if (confirmed) await trashCopies(item.path, others);
+  }
+
+  async function trashOne(group: DuplicateGroup, item: AudioItem) {
+    const keep = group.items.find((it) => it !== item);
+    if (!keep) return;
+    const confirmed = await confirmAlert({
+      title: `Move ${item.name} to Trash?`,
+      message: `Its favorite and tags move to ${keep.name}.`,
+      primaryAction: {
+        title: "Move to Trash",
+        style: Alert.ActionStyle.Destructive,
+      },
+    });
+    if (confirmed) await trashCopies(keep.path, [item.path]);
+  }
+
+  function revealOthers(group: DuplicateGroup, item: AudioItem) {
+    const others = group.items.filter((it) => it !== item).map((it) => it.path);
+    spawn("/usr/bin/open", ["-R", ...others]);
+  }
+
+  function accessories(item: AudioItem): List.Item.Accessory[] {
+    const list: List.Item.Accessory[] = (tags[item.path] ?? []).map((t) => ({
+      tag: t,
+    }));
+    if (favorites.includes(item.path)) {
+      list.push({
+        icon: { source: Icon.Heart, tintColor: Color.Red },
+        tooltip: "Favorite",
+      });
+    }
+    list.push({ text: path.extname(item.name).slice(1).toUpperCase() });
+    const duration = formatDuration(item.metadata?.durationSec);
+    if (duration) list.push({ text: duration, icon: Icon.Clock });
+    list.push({ text: `${Math.round(item.size / 1024)} KB` });
+    return list;
+  }
+
+  return (
+    <List navigationTitle="Find Duplicates" isLoading={groups === null}>
+      {groups !== null ? (
+        <List.EmptyView
+          icon={Icon.CheckCircle}
+          title="No Duplicates"
+          description={`Checked ${items.length} files`}
+        />
+      ) : null}
+      {(groups ?? []).map((group) => (
+        <List.Section
+          key={group.id}
+          title={path.parse(group.items[0].name).name}
+          subtitle={
+            group.kind === "identical"
+              ? `${group.items.length} identical copies`
+              : `${group.items.length} files with the same audio`
+          }
+        >
+          {group.items.map((item) => (
+            <List.Item
+              key={item.path}
+              id={item.path}
+              title={item.name}
+              subtitle={item.category}
+              icon={
+                group.kind === "identical" ? Icon.CopyClipboard : Icon.Waveform
+              }
+              accessories={accessories(item)}
+              actions={
+                <ActionPanel>
+                  <Action
+                    title={
+                      group.kind === "identical"
+                        ? "Keep This Copy, Trash Others"
+                        : "Keep This File, Trash Others"
+                    }
+                    icon={Icon.CheckCircle}
+                    onAction={() => keepOnly(group, item)}
+                  />
+                  <Action
+                    title="Reveal Other Copies"
+                    icon={Icon.Finder}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+                    onAction={() => revealOthers(group, item)}
+                  />
+                  <Action.ShowInFinder
+                    path={item.path}
+                    shortcut={{ modifiers: ["cmd", "opt"], key: "r" }}
+                  />
+                  <Action
+                    title="Move to Trash"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => trashOne(group, item)}
+                  />
+                  <ActionPanel.Section>
+                    {renderItemActions(item)}
+                  </ActionPanel.Section>
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
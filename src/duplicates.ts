@@ -0,0 +1,233 @@
+import { AudioItem } from "./audio-item";
+import { TagMap } from "./tags-store";
+import { fingerprintCell, isSameSound } from "./fingerprint";
+
+// Duplicate detection over the scanned library. Files with the same bytes are
+// identical copies; files whose decoded audio matches (same sound in another
+// format or bit depth) are near-duplicates. The sampled content hash only
+// narrows down which files are read in full.
+
+export type DuplicateKind = "identical" | "similar";
+
+export interface DuplicateGroup {
+  id: string;
+  kind: DuplicateKind;
+  items: AudioItem[];
+}
+
+export interface DuplicateSources {
+  contentHash: (item: AudioItem) => Promise<string | undefined>;
+  fullHash: (item: AudioItem) => Promise<string | undefined>;
+  fingerprint: (item: AudioItem) => Promise<string | null>;
+  onProgress?: (stage: string, done: number, total: number) => void;
+  isCancelled?: () => boolean;
+}
+
+// How far apart two durations can be for the same sound in different formats
+// (encoders pad the start and end)
+function durationsMatch(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(0.15, 0.01 * Math.max(a, b));
+}
+
+function durationOf(item: AudioItem): number {
+  return item.metadata?.durationSec ?? 0;
+}
+
+// Keys of a level cell and every cell next to it, itself included
+function neighbouringCells(cell: number[]): string[] {
+  return cell
+    .reduce<number[][]>(
+      (keys, c) =>
+        keys.flatMap((prefix) => [c - 1, c, c + 1].map((v) => [...prefix, v])),
+      [[]]
+    )
+    .map((key) => key.join(","));
+}
+
+class UnionFind {
+  private parent = new Map<string, string>();
+
+  find(key: string): string {
+    let root = key;
+    while (this.parent.has(root) && this.parent.get(root) !== root) {
+      root = this.parent.get(root) as string;
+    }
+    this.parent.set(key, root);
+    return root;
+  }
+
+  union(a: string, b: string) {
+    const ra = this.find(a);
+    const rb = this.find(b);
+    if (ra !== rb) this.parent.set(rb, ra);
+  }
+}
+
+/**
+ * Group duplicate files. Only files that share a size are hashed, only files
+ * that share the sampled hash are hashed in full, and only files with a close
+ * duration are fingerprinted. Fingerprints are compared only with those of a
+ * close duration in the same or a neighbouring level cell, so a library of
+ * many sounds of the same length doesn't compare every pair.
+ */
+export async function findDuplicates(
+  items: AudioItem[],
+  sources: DuplicateSources
+): Promise<DuplicateGroup[]> {
+  const groups = new UnionFind();
+  const hashes = new Map<string, string>();
+
+  const bySize = new Map<number, AudioItem[]>();
+  for (const item of items) {
+    bySize.set(item.size, [...(bySize.get(item.size) ?? []), item]);
+  }
+  const toHash = [...bySize.values()].filter((list) => list.length > 1).flat();
+  const bySample = new Map<string, AudioItem[]>();
+  for (let i = 0; i < toHash.length; i++) {
+    if (sources.isCancelled?.()) return [];
+    sources.onProgress?.("Hashing", i, toHash.length);
+    const item = toHash[i];
+    const hash = await sources.contentHash(item);
+    if (hash) bySample.set(hash, [...(bySample.get(hash) ?? []), item]);
+  }
+
+  // The sampled hash skips the middle of larger files, so only the full hash
+  // makes two files identical; the rest are left to the audio comparison
+  const toVerify = [...bySample.values()]
+    .filter((list) => list.length > 1)
+    .flat();
+  const byHash = new Map<string, string>();
+  for (let i = 0; i < toVerify.length; i++) {
+    if (sources.isCancelled?.()) return [];
+    sources.onProgress?.("Verifying copies", i, toVerify.length);
+    const item = toVerify[i];
+    const hash = await sources.fullHash(item);
+    if (!hash) continue;
+    hashes.set(item.path, hash);
+    const first = byHash.get(hash);
+    if (first) groups.union(first, item.path);
+    else byHash.set(hash, item.path);
+  }
+
+  // One file per set of identical copies is enough to compare audio, and
+  // only files with another of a close duration can match one
+  const representatives = items
+    .filter((it) => {
+      const hash = hashes.get(it.path);
+      return !hash || byHash.get(hash) === it.path;
+    })
+    .filter((it) => it.metadata?.durationSec)
+    .sort((a, b) => durationOf(a) - durationOf(b));
+  const toFingerprint = representatives.filter((it, i) => {
+    const prev = representatives[i - 1];
+    const next = representatives[i + 1];
+    return (
+      (prev && durationsMatch(durationOf(prev), durationOf(it))) ||
+      (next && durationsMatch(durationOf(it), durationOf(next)))
+    );
+  });
+
+  const fingerprints = new Map<string, string | null>();
+  for (let i = 0; i < toFingerprint.length; i++) {
+    if (sources.isCancelled?.()) return [];
+    sources.onProgress?.("Comparing audio", i, toFingerprint.length);
+    const item = toFingerprint[i];
+    fingerprints.set(item.path, await sources.fingerprint(item));
+  }
+
+  // Files already placed in each level cell, shortest first
+  const cells = new Map<string, AudioItem[]>();
+  for (const item of toFingerprint) {
+    const fingerprint = fingerprints.get(item.path);
+    if (!fingerprint) continue;
+    const cell = fingerprintCell(fingerprint);
+    for (const key of neighbouringCells(cell)) {
+      const placed = cells.get(key) ?? [];
+      for (let j = placed.length - 1; j >= 0; j--) {
+        const other = placed[j];
+        if (!durationsMatch(durationOf(other), durationOf(item))) break;
+        if (groups.find(other.path) === groups.find(item.path)) continue;
+        const otherFingerprint = fingerprints.get(other.path) as string;
+        if (isSameSound(otherFingerprint, fingerprint)) {
+          groups.union(other.path, item.path);
+        }
+      }
+    }
+    const key = cell.join(",");
+    const own = cells.get(key);
+    if (own) own.push(item);
+    else cells.set(key, [item]);
+  }
+
+  const clusters = new Map<string, AudioItem[]>();
+  for (const item of items) {
+    const root = groups.find(item.path);
+    clusters.set(root, [...(clusters.get(root) ?? []), item]);
+  }
+  return [...clusters.values()]
+    .filter((list) => list.length > 1)
+    .map((list) => {
+      const sorted = list.slice().sort((a, b) => a.path.localeCompare(b.path));
+      const first = hashes.get(sorted[0].path);
+      const identical =
+        first !== undefined &&
+        sorted.every((it) => hashes.get(it.path) === first);
+      return {
+        id: sorted[0].path,
+        kind: identical ? "identical" : "similar",
+        items: sorted,
+      } as DuplicateGroup;
+    })
+    .sort(
+      (a, b) =>
+        (a.kind === b.kind ? 0 : a.kind === "identical" ? -1 : 1) ||
+        a.items[0].name.localeCompare(b.items[0].name)
+    );
+}
+
+/**
+ * Tags after removing duplicate copies: the kept file gets the union of all
+ * their tags and the removed files are dropped. Returns null when nothing
+ * changes.
+ */
+export function mergeDuplicateTags(
+  tags: TagMap,
+  keep: string,
+  removed: string[]
+): TagMap | null {
+  if (!removed.some((p) => tags[p])) return null;
+  const merged = [
+    ...new Set([keep, ...removed].flatMap((p) => tags[p] ?? [])),
+  ].sort();
+  const dropped = new Set(removed);
+  const next = Object.fromEntries(
+    Object.entries(tags).filter(([p]) => !dropped.has(p))
+  );
+  next[keep] = merged;
+  return next;
+}
+
+/**
+ * Favorites after removing duplicate copies: the kept file is a favorite when
+ * any copy was. Returns null when nothing changes.
+ */
+export function mergeDuplicateFavorites(
+  favorites: string[],
+  keep: string,
+  removed: string[]
+): { next: string[]; changes: { path: string; favorite: boolean }[] } | null {
+  const dropped = new Set(removed);
+  const removedFavorites = favorites.filter((p) => dropped.has(p));
+  if (removedFavorites.length === 0) return null;
+  const addKeep = !favorites.includes(keep);
+  return {
+    next: [
+      ...favorites.filter((p) => !dropped.has(p)),
+      ...(addKeep ? [keep] : []),
+    ],
+    changes: [
+      ...removedFavorites.map((p) => ({ path: p, favorite: false })),
+      ...(addKeep ? [{ path: keep, favorite: true }] : []),
+    ],
+  };
+}
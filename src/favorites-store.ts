@@ -0,0 +1,405 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  LibraryIndex,
+  ensureContentHash,
+  ensureFullHash,
+} from "./library-index";
+import { LibraryRoot, findRootForPath } from "./library-roots";
+
+// Favorites live in a visible file in each library root so they sync through
+// the shared drive. Entries are stored relative to the root together with the
+// file's size and content hashes: the relative path works wherever a teammate
+// mounts the library, and the hashes find the file again after it was moved or
+// renamed on another machine.
+//
+// Several people toggle favorites in the same file, so it is not a plain list
+// but a log of add/remove operations with a timestamp and author. Readers merge
+// every operation they can find (including cloud-sync "conflicted copy" files)
+// and the latest operation per file wins. Writers merge their new operations
+// into what is on disk at that moment and replace the file atomically.
+//
+// Older versions stored a plain list of refs (version 2) or of absolute paths,
+// first in a hidden ".audio-files-favorites.json"; all are migrated on load.
+
+export const FAVORITES_FILE_NAME = "audio-files-favorites.json";
+const LEGACY_FAVORITES_FILE_NAME = ".audio-files-favorites.json";
+const FAVORITES_FILE_VERSION = 3;
+// Removals are remembered this long so stale copies can't bring entries back
+const TOMBSTONE_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * A reference to a library file that doesn't depend on where the library is
+ * mounted.
+ */
+export interface PortableRef {
+  root?: string; // root id; omitted inside a root's own favorites file
+  path: string; // relative to the root, with forward slashes
+  size?: number;
+  hash?: string;
+  fullHash?: string; // confirms a match on `hash`, see resolvePortableRef
+}
+
+// Indexes of the online roots, keyed by root id
+export type RootIndexes = Map<string, LibraryIndex>;
+
+export interface FavoriteOp {
+  op: "add" | "remove";
+  path: string; // relative to the root, with forward slashes
+  size?: number;
+  hash?: string;
+  fullHash?: string;
+  at: number; // ms since epoch
+  by: string; // user@host
+}
+
+export interface FavoritesFileContents {
+  ops: FavoriteOp[]; // merged, latest per path
+  legacyPaths: string[]; // absolute paths from the old format, to migrate
+  needsRewrite: boolean; // old format or conflicted copies were found
+}
+
+function toRelative(root: LibraryRoot, filePath: string): string {
+  return path.relative(root.path, filePath).split(path.sep).join("/");
+}
+
+function fromRelative(root: LibraryRoot, relPath: string): string {
+  return path.join(root.path, ...relPath.split("/"));
+}
+
+function isRef(value: unknown): value is PortableRef {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as PortableRef).path === "string"
+  );
+}
+
+function isOp(value: unknown): value is FavoriteOp {
+  const op = value as FavoriteOp;
+  return (
+    isRef(value) &&
+    (op.op === "add" || op.op === "remove") &&
+    typeof op.at === "number"
+  );
+}
+
+export function favoritesAuthor(): string {
+  try {
+    return `${os.userInfo().username}@${os.hostname()}`;
+  } catch {
+    return "unknown";
+  }
+}
+
+export function favoriteOp(
+  ref: PortableRef,
+  op: FavoriteOp["op"],
+  at = Date.now()
+): FavoriteOp {
+  return {
+    op,
+    path: ref.path,
+    size: ref.size,
+    hash: ref.hash,
+    fullHash: ref.fullHash,
+    at,
+    by: favoritesAuthor(),
+  };
+}
+
+// Later operations win; ties go to the author sorting last, then to removal,
+// so every reader settles on the same result
+function newer(a: FavoriteOp, b: FavoriteOp): boolean {
+  if (a.at !== b.at) return a.at > b.at;
+  if (a.by !== b.by) return a.by > b.by;
+  return a.op === "remove" && b.op === "add";
+}
+
+// The same operation, written again once its file's full hash was known
+function completes(a: FavoriteOp, b: FavoriteOp): boolean {
+  return (
+    a.at === b.at &&
+    a.by === b.by &&
+    a.op === b.op &&
+    !!a.fullHash &&
+    !b.fullHash
+  );
+}
+
+/**
+ * Merge operation lists, keeping the latest operation per path. Old removals
+ * are dropped.
+ */
+export function mergeFavoriteOps(...lists: FavoriteOp[][]): FavoriteOp[] {
+  const latest = new Map<string, FavoriteOp>();
+  for (const op of lists.flat()) {
+    const current = latest.get(op.path);
+    if (!current || newer(op, current) || completes(op, current)) {
+      latest.set(op.path, op);
+    }
+  }
+  const cutoff = Date.now() - TOMBSTONE_TTL_MS;
+  return [...latest.values()]
+    .filter((op) => op.op === "add" || op.at >= cutoff)
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export function getFavoritesFilePath(root: LibraryRoot): string {
+  return path.join(root.path, FAVORITES_FILE_NAME);
+}
+
+/**
+ * Sync clients leave copies such as "audio-files-favorites (Jo's conflicted
+ * copy 2024-05-01).json", "audio-files-favorites 2.json" or
+ * "audio-files-favorites.sync-conflict-20240501-101500-ABC.json".
+ */
+function isConflictedCopy(name: string): boolean {
+  return (
+    name !== FAVORITES_FILE_NAME &&
+    /^audio-files-favorites[ .(_-].*\.json$/i.test(name)
+  );
+}
+
+function findConflictedCopies(root: LibraryRoot): string[] {
+  try {
+    return fs
+      .readdirSync(root.path)
+      .filter(isConflictedCopy)
+      .map((name) => path.join(root.path, name));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parse one favorites file in any of its formats. Entries without timestamps
+ * are dated by the file's mtime.
+ */
+function parseFavoritesFile(
+  fp: string
+): { ops: FavoriteOp[]; legacyPaths: string[]; current: boolean } | null {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(fp, "utf8"));
+    const mtime = fs.statSync(fp).mtimeMs;
+    if (Array.isArray(parsed)) {
+      return {
+        ops: [],
+        legacyPaths: parsed.filter((v) => typeof v === "string"),
+        current: false,
+      };
+    }
+    if (
+      parsed?.version === FAVORITES_FILE_VERSION &&
+      Array.isArray(parsed.ops)
+    ) {
+      return {
+        ops: parsed.ops.filter(isOp).map((op: FavoriteOp) => ({
+          op: op.op,
+          path: op.path,
+          size: op.size,
+          hash: op.hash,
+          fullHash: op.fullHash,
+          at: op.at,
+          by: typeof op.by === "string" ? op.by : "unknown",
+        })),
+        legacyPaths: [],
+        current: true,
+      };
+    }
+    if (Array.isArray(parsed?.favorites)) {
+      return {
+        ops: parsed.favorites.filter(isRef).map((r: PortableRef) => ({
+          ...favoriteOp(r, "add", mtime),
+          by: "",
+        })),
+        legacyPaths: [],
+        current: false,
+      };
+    }
+  } catch (e) {
+    console.error("Failed to read favorites file", fp, e);
+  }
+  return null;
+}
+
+/**
+ * Read and merge a root's favorites file, its conflicted copies and the legacy
+ * hidden file. Returns null when the root has none of them.
+ */
+export function readFavoritesFile(
+  root: LibraryRoot
+): FavoritesFileContents | null {
+  const main = getFavoritesFilePath(root);
+  const legacy = path.join(root.path, LEGACY_FAVORITES_FILE_NAME);
+  const conflicts = findConflictedCopies(root);
+  const files = [main, legacy, ...conflicts].filter((fp) => fs.existsSync(fp));
+  if (files.length === 0) return null;
+  const lists: FavoriteOp[][] = [];
+  const legacyPaths: string[] = [];
+  let needsRewrite = conflicts.length > 0;
+  for (const fp of files) {
+    const parsed = parseFavoritesFile(fp);
+    if (!parsed) continue;
+    lists.push(parsed.ops);
+    legacyPaths.push(...parsed.legacyPaths);
+    if (!parsed.current) needsRewrite = true;
+  }
+  return {
+    ops: mergeFavoriteOps(...lists),
+    legacyPaths: [...new Set(legacyPaths)],
+    needsRewrite,
+  };
+}
+
+/**
+ * Merge `ops` into the root's favorites as they are on disk right now and
+ * replace the file atomically. Conflicted copies and the legacy file are
+ * removed once their entries are written. Absolute paths from the old format
+ * can only be migrated with the library index at hand, so unless the caller
+ * passes `legacyMigrated` (having included them in `ops`) the write is
+ * refused while any are on disk. Returns false if nothing was written.
+ */
+export function writeFavoritesFile(
+  root: LibraryRoot,
+  ops: FavoriteOp[],
+  options?: { legacyMigrated?: boolean }
+): boolean {
+  const target = getFavoritesFilePath(root);
+  const tmp = `${target}.${process.pid}.tmp`;
+  try {
+    const onDisk = readFavoritesFile(root);
+    if (onDisk?.legacyPaths.length && !options?.legacyMigrated) return false;
+    const merged = mergeFavoriteOps(onDisk?.ops ?? [], ops);
+    const content = { version: FAVORITES_FILE_VERSION, ops: merged };
+    fs.writeFileSync(tmp, JSON.stringify(content, null, 2), "utf8");
+    fs.renameSync(tmp, target);
+    const legacy = path.join(root.path, LEGACY_FAVORITES_FILE_NAME);
+    for (const fp of [legacy, ...findConflictedCopies(root)]) {
+      fs.rmSync(fp, { force: true });
+    }
+    return true;
+  } catch (e) {
+    console.error("Failed to write favorites file", root.path, e);
+    fs.rmSync(tmp, { force: true });
+    return false;
+  }
+}
+
+/**
+ * Write added favorites again with their files' full hashes, computing them
+ * now. Reading whole files is slow on a shared drive, so this runs after the
+ * operations were first written. Returns false if nothing was written.
+ */
+export async function completeFullHashes(
+  root: LibraryRoot,
+  index: LibraryIndex,
+  ops: FavoriteOp[]
+): Promise<boolean> {
+  const completed: FavoriteOp[] = [];
+  for (const op of ops) {
+    if (op.op !== "add" || op.fullHash) continue;
+    const fullHash = await ensureFullHash(index, fromRelative(root, op.path));
+    if (fullHash) completed.push({ ...op, fullHash });
+  }
+  return completed.length > 0 && writeFavoritesFile(root, completed);
+}
+
+/**
+ * Describe an absolute path portably. Returns null for files outside every
+ * root. The sampled content hash is computed (and cached in the index) if
+ * needed; the full hash reads the whole file, so it is only included once the
+ * index has it.
+ */
+export async function toPortableRef(
+  roots: LibraryRoot[],
+  indexes: RootIndexes,
+  filePath: string
+): Promise<PortableRef | null> {
+  const root = findRootForPath(roots, filePath);
+  if (!root) return null;
+  const index = indexes.get(root.id);
+  return {
+    root: root.id,
+    path: toRelative(root, filePath),
+    size: index?.files[filePath]?.size,
+    hash: index ? await ensureContentHash(index, filePath) : undefined,
+    fullHash: index?.files[filePath]?.fullHash,
+  };
+}
+
+/**
+ * Find the file a ref points to on this machine: first by its relative path,
+ * then by content hash among files of the same size, searching the ref's own
+ * root before the others. The sampled hash alone can match a different file,
+ * so a match must also have the ref's full hash; refs written before full
+ * hashes were stored only match a file that no other file could be mistaken
+ * for. Returns null when it can't be found, e.g. because its root is offline.
+ */
+export async function resolvePortableRef(
+  ref: PortableRef,
+  roots: LibraryRoot[],
+  indexes: RootIndexes,
+  defaultRootId?: string
+): Promise<string | null> {
+  const rootId = ref.root ?? defaultRootId;
+  const root = roots.find((r) => r.id === rootId);
+  if (root) {
+    const index = indexes.get(root.id);
+    if (!index) return null;
+    const candidate = fromRelative(root, ref.path);
+    if (index.files[candidate]) return candidate;
+  }
+  if (!ref.hash || ref.size === undefined) return null;
+  const ordered = [...indexes.entries()].sort(
+    (a, b) => Number(b[0] === rootId) - Number(a[0] === rootId)
+  );
+  const candidates: string[] = [];
+  for (const [, index] of ordered) {
+    for (const file of Object.values(index.files)) {
+      if (file.size !== ref.size) continue;
+      if ((await ensureContentHash(index, file.path)) !== ref.hash) continue;
+      if (!ref.fullHash) {
+        candidates.push(file.path);
+      } else if ((await ensureFullHash(index, file.path)) === ref.fullHash) {
+        return file.path;
+      }
+    }
+  }
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+/**
+ * Turn an absolute path from an old favorites file into a ref. Paths inside a
+ * root convert directly; paths from another machine are matched on their
+ * longest trailing part that exists in one of the roots, preferring
+ * `preferredRootId`.
+ */
+export async function migrateLegacyPath(
+  roots: LibraryRoot[],
+  indexes: RootIndexes,
+  filePath: string,
+  preferredRootId?: string
+): Promise<PortableRef | null> {
+  if (findRootForPath(roots, filePath)) {
+    return toPortableRef(roots, indexes, filePath);
+  }
+  const parts = filePath.split(/[\\/]+/).filter(Boolean);
+  const ordered = roots
+    .filter((r) => indexes.has(r.id))
+    .sort(
+      (a, b) =>
+        Number(b.id === preferredRootId) - Number(a.id === preferredRootId)
+    );
+  for (let n = parts.length - 1; n >= 1; n--) {
+    const rel = parts.slice(parts.length - n).join("/");
+    for (const root of ordered) {
+      const candidate = fromRelative(root, rel);
+      if (indexes.get(root.id)?.files[candidate]) {
+        return toPortableRef(roots, indexes, candidate);
+      }
+    }
+  }
+  return null;
+}
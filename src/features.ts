@@ -0,0 +1,230 @@
+import { decodeMono } from "./pcm-decoder";
+import { Fft, hannWindow } from "./dsp";
+
+// A compact feature vector per file for "more like this" searches: duration,
+// spectral shape (centroid, rolloff, zero-crossing rate), MFCC means and the
+// shape of the loudness envelope. Vectors are compared after standardising
+// each dimension across the library, with every group weighted equally so the
+// twelve MFCCs don't outvote the duration.
+
+const ANALYSIS_RATE = 22050;
+const MAX_ANALYSIS_SEC = 30;
+const FFT_SIZE = 1024;
+const HOP = 512;
+const MEL_BANDS = 26;
+const MFCCS = 12; // c1..c12; c0 is overall level, which the envelope covers
+const ENVELOPE_SEGMENTS = 8;
+const ACTIVE_DB = -60; // frames quieter than this below the peak are ignored
+const ROLLOFF = 0.85;
+
+// Index ranges of the groups in a vector
+const GROUPS: [number, number][] = [
+  [0, 1], // duration
+  [1, 5], // centroid mean and spread, rolloff, zero-crossing rate
+  [5, 5 + MFCCS], // MFCCs
+  [5 + MFCCS, 5 + MFCCS + ENVELOPE_SEGMENTS + 1], // envelope and attack
+];
+export const FEATURE_LENGTH = GROUPS[GROUPS.length - 1][1];
+
+function melFilterbank(sampleRate: number): Float64Array[] {
+  const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+  const fromMel = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+  const bins = FFT_SIZE / 2 + 1;
+  const low = toMel(20);
+  const high = toMel(Math.min(sampleRate / 2, 11000));
+  const edges = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+    fromMel(low + ((high - low) * i) / (MEL_BANDS + 1))
+  ).map((hz) => (hz * FFT_SIZE) / sampleRate);
+  return Array.from({ length: MEL_BANDS }, (_, band) => {
+    const weights = new Float64Array(bins);
+    const [left, centre, right] = edges.slice(band, band + 3);
+    for (let k = Math.floor(left); k <= Math.ceil(right) && k < bins; k++) {
+      if (k > left && k <= centre) weights[k] = (k - left) / (centre - left);
+      else if (k > centre && k < right) {
+        weights[k] = (right - k) / (right - centre);
+      }
+    }
+    return weights;
+  });
+}
+
+// DCT-II of the log mel energies, coefficients 1..MFCCS
+function mfcc(logMel: Float64Array): number[] {
+  const out: number[] = [];
+  for (let c = 1; c <= MFCCS; c++) {
+    let sum = 0;
+    for (let m = 0; m < MEL_BANDS; m++) {
+      sum += logMel[m] * Math.cos((Math.PI * c * (m + 0.5)) / MEL_BANDS);
+    }
+    out.push(sum / MEL_BANDS);
+  }
+  return out;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((a, b) => a + b, 0) / values.length
+    : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Compute the feature vector of a file from its first 30 seconds.
+ * `durationSec` gives the full length of longer files. Returns null when the
+ * file can't be decoded or is silent, and throws when decoding may work later.
+ */
+export async function extractFeatures(
+  filePath: string,
+  durationSec?: number
+): Promise<number[] | null> {
+  const decoded = await decodeMono(filePath, ANALYSIS_RATE, MAX_ANALYSIS_SEC);
+  if (!decoded) return null;
+  const { samples, sampleRate } = decoded;
+  const fft = new Fft(FFT_SIZE);
+  const window = hannWindow(FFT_SIZE);
+  const filters = melFilterbank(sampleRate);
+  const spectrum = new Float64Array(FFT_SIZE / 2 + 1);
+  const binHz = sampleRate / FFT_SIZE;
+
+  interface Frame {
+    rms: number;
+    centroid: number;
+    rolloff: number;
+    zcr: number;
+    mfcc: number[];
+  }
+  const frames: Frame[] = [];
+  for (let start = 0; start < Math.max(1, samples.length); start += HOP) {
+    const slice = samples.subarray(start, start + FFT_SIZE);
+    let sumSquares = 0;
+    let crossings = 0;
+    for (let i = 0; i < slice.length; i++) {
+      sumSquares += slice[i] * slice[i];
+      if (i > 0 && slice[i] >= 0 !== slice[i - 1] >= 0) crossings++;
+    }
+    fft.magnitudes(slice, window, spectrum);
+    let total = 0;
+    let weighted = 0;
+    for (let k = 1; k < spectrum.length; k++) {
+      const power = spectrum[k] * spectrum[k];
+      total += power;
+      weighted += power * k * binHz;
+    }
+    let rolloffBin = 0;
+    for (let k = 1, acc = 0; k < spectrum.length; k++) {
+      acc += spectrum[k] * spectrum[k];
+      rolloffBin = k;
+      if (acc >= ROLLOFF * total) break;
+    }
+    const logMel = new Float64Array(MEL_BANDS);
+    for (let m = 0; m < MEL_BANDS; m++) {
+      let energy = 0;
+      const weights = filters[m];
+      for (let k = 0; k < spectrum.length; k++) {
+        if (weights[k] > 0) energy += weights[k] * spectrum[k] * spectrum[k];
+      }
+      logMel[m] = Math.log(energy + 1e-10);
+    }
+    frames.push({
+      rms: Math.sqrt(sumSquares / Math.max(1, slice.length)),
+      centroid: total > 0 ? weighted / total : 0,
+      rolloff: rolloffBin * binHz,
+      zcr: crossings / Math.max(1, slice.length),
+      mfcc: mfcc(logMel),
+    });
+  }
+
+  const peak = Math.max(...frames.map((f) => f.rms));
+  if (peak <= 0) return null;
+  const threshold = peak * Math.pow(10, ACTIVE_DB / 20);
+  const active = frames.filter((f) => f.rms >= threshold);
+  const logHz = (hz: number) => Math.log2(Math.max(hz, 20));
+  const centroids = active.map((f) => logHz(f.centroid));
+  const centroidMean = mean(centroids);
+  const centroidSpread = Math.sqrt(
+    mean(centroids.map((c) => (c - centroidMean) ** 2))
+  );
+
+  // Envelope in dB below the peak, averaged over equal parts of the sound
+  // from its first to its last active frame
+  const first = frames.findIndex((f) => f.rms >= threshold);
+  let last = frames.length - 1;
+  while (last > first && frames[last].rms < threshold) last--;
+  const span = frames.slice(first, last + 1);
+  const envelope = Array.from({ length: ENVELOPE_SEGMENTS }, (_, s) => {
+    const from = Math.floor((s * span.length) / ENVELOPE_SEGMENTS);
+    const to = Math.max(
+      from + 1,
+      Math.floor(((s + 1) * span.length) / ENVELOPE_SEGMENTS)
+    );
+    const level = mean(span.slice(from, to).map((f) => f.rms)) / peak;
+    return Math.max(ACTIVE_DB, 20 * Math.log10(level || 1e-6)) / -ACTIVE_DB;
+  });
+  const peakIndex = span.findIndex((f) => f.rms === peak);
+  const attackSec = (Math.max(0, peakIndex) * HOP) / sampleRate;
+
+  const decodedSec = samples.length / sampleRate;
+  const length =
+    decodedSec < MAX_ANALYSIS_SEC - 1 ? decodedSec : durationSec ?? decodedSec;
+  const mfccMeans = Array.from({ length: MFCCS }, (_, c) =>
+    mean(active.map((f) => f.mfcc[c]))
+  );
+  return [
+    Math.log(length + 0.01),
+    centroidMean,
+    centroidSpread,
+    mean(active.map((f) => logHz(f.rolloff))),
+    mean(active.map((f) => f.zcr)),
+    ...mfccMeans,
+    ...envelope,
+    Math.log(attackSec + 0.005),
+  ].map(round);
+}
+
+export interface SimilarResult<T> {
+  item: T;
+  distance: number;
+}
+
+/**
+ * The `limit` candidates closest to `target`. Each dimension is standardised
+ * by its spread over `target` and the candidates, so the ranking adapts to
+ * the library.
+ */
+export function rankBySimilarity<T>(
+  target: number[],
+  candidates: { item: T; features: number[] }[],
+  limit: number
+): SimilarResult<T>[] {
+  const usable = candidates.filter((c) => c.features.length === target.length);
+  const all = [target, ...usable.map((c) => c.features)];
+  const spread = target.map((_, d) => {
+    const values = all.map((v) => v[d]);
+    const m = mean(values);
+    return Math.sqrt(mean(values.map((v) => (v - m) ** 2))) || 1;
+  });
+  return usable
+    .map((c) => {
+      let distance = 0;
+      for (const [from, to] of GROUPS) {
+        let group = 0;
+        for (let d = from; d < to; d++) {
+          group += ((c.features[d] - target[d]) / spread[d]) ** 2;
+        }
+        distance += group / (to - from);
+      }
+      return { item: c.item, distance: Math.sqrt(distance / GROUPS.length) };
+    })
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit);
+}
+
+/**
+ * A distance as a match percentage for display.
+ */
+export function similarityPercent(distance: number): number {
+  return Math.round(100 / (1 + distance));
+}
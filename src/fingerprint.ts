@@ -0,0 +1,136 @@
+import { openPcmOrThrow } from "./pcm-decoder";
+import { BiquadState, bandPass, highPass, lowPass } from "./dsp";
+
+// A coarse fingerprint of the decoded audio, so that the same sound saved in
+// different formats (a WAV and its MP3 export) can be recognised. It is the
+// level envelope of four frequency bands from the first sound onwards, in
+// 50 ms frames quantised to bytes and stored as base64.
+
+const FRAME_SEC = 0.05;
+const MAX_FRAMES = 200; // 10 s is plenty to tell sounds apart
+const START_THRESHOLD = Math.pow(10, -50 / 20); // skips encoder padding
+const FLOOR_DB = -80;
+const BANDS = 4;
+// Mean level difference per band below which two fingerprints are the same
+// sound; lossy encoding stays well under it
+const MATCH_DB = 2.5;
+// Width of the level cells that narrow down which fingerprints are compared
+const CELL_DB = 4 * MATCH_DB;
+
+function bandFilters(sampleRate: number): BiquadState[] {
+  return [
+    lowPass(250, sampleRate),
+    bandPass(500, sampleRate),
+    bandPass(2000, sampleRate),
+    highPass(4000, sampleRate),
+  ].map((f) => new BiquadState(f));
+}
+
+function quantize(power: number): number {
+  const db = power > 0 ? 10 * Math.log10(power) : FLOOR_DB;
+  const clamped = Math.min(0, Math.max(FLOOR_DB, db));
+  return Math.round(((clamped - FLOOR_DB) / -FLOOR_DB) * 255);
+}
+
+/**
+ * Fingerprint a file. Returns null when it can't be decoded or is silent, and
+ * throws when decoding may work later (see openPcmOrThrow).
+ */
+export async function computeFingerprint(
+  filePath: string
+): Promise<string | null> {
+  const stream = await openPcmOrThrow(filePath);
+  if (!stream) return null;
+  try {
+    const frameLength = Math.round(stream.sampleRate * FRAME_SEC);
+    const filters = bandFilters(stream.sampleRate);
+    const sums = new Float64Array(BANDS);
+    const bytes: number[] = [];
+    let started = false;
+    let count = 0;
+    outer: for await (const planes of stream.chunks()) {
+      const frames = planes[0].length;
+      for (let i = 0; i < frames; i++) {
+        let x = 0;
+        for (let c = 0; c < planes.length; c++) x += planes[c][i];
+        x /= planes.length;
+        if (!started) {
+          if (Math.abs(x) < START_THRESHOLD) continue;
+          started = true;
+        }
+        for (let band = 0; band < BANDS; band++) {
+          const y = filters[band].process(x);
+          sums[band] += y * y;
+        }
+        if (++count === frameLength) {
+          sums.forEach((sum) => bytes.push(quantize(sum / count)));
+          sums.fill(0);
+          count = 0;
+          if (bytes.length >= MAX_FRAMES * BANDS) break outer;
+        }
+      }
+    }
+    // Sounds shorter than one frame still get one
+    if (bytes.length === 0 && count > 0) {
+      sums.forEach((sum) => bytes.push(quantize(sum / count)));
+    }
+    return bytes.length > 0 ? Buffer.from(bytes).toString("base64") : null;
+  } finally {
+    await stream.close();
+  }
+}
+
+/**
+ * Level difference in dB between two fingerprints: the mean over frames for
+ * the band that differs most, allowing the two to be shifted by a frame.
+ * Infinity when their lengths differ too much to be the same sound.
+ */
+export function fingerprintDistance(a: string, b: string): number {
+  const x = Buffer.from(a, "base64");
+  const y = Buffer.from(b, "base64");
+  const framesX = x.length / BANDS;
+  const framesY = y.length / BANDS;
+  if (
+    Math.abs(framesX - framesY) > Math.max(2, 0.1 * Math.max(framesX, framesY))
+  ) {
+    return Infinity;
+  }
+  const dbPerStep = -FLOOR_DB / 255;
+  let best = Infinity;
+  for (let shift = -1; shift <= 1; shift++) {
+    const sums = new Float64Array(BANDS);
+    let n = 0;
+    for (let f = 0; f < framesX; f++) {
+      const g = f + shift;
+      if (g < 0 || g >= framesY) continue;
+      for (let band = 0; band < BANDS; band++) {
+        sums[band] += Math.abs(x[f * BANDS + band] - y[g * BANDS + band]);
+      }
+      n++;
+    }
+    if (n > 0) best = Math.min(best, (Math.max(...sums) / n) * dbPerStep);
+  }
+  return best;
+}
+
+/**
+ * Each band's mean level in steps of CELL_DB. The same sound in two formats
+ * has mean levels within MATCH_DB of each other, so its fingerprints land in
+ * the same or neighbouring cells.
+ */
+export function fingerprintCell(fingerprint: string): number[] {
+  const x = Buffer.from(fingerprint, "base64");
+  const frames = Math.max(1, x.length / BANDS);
+  const dbPerStep = -FLOOR_DB / 255;
+  const cell: number[] = [];
+  for (let band = 0; band < BANDS; band++) {
+    let sum = 0;
+    for (let f = band; f < x.length; f += BANDS) sum += x[f];
+    cell.push(Math.floor(((sum / frames) * dbPerStep) / CELL_DB));
+  }
+  return cell;
+}
+
+export function isSameSound(a: string, b: string): boolean {
+  return fingerprintDistance(a, b) <= MATCH_DB;
+}
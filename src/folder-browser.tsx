@@ -0,0 +1,162 @@
+import { Action, ActionPanel, Icon, List, popToRoot } from "@raycast/api";
+import { useState } from "react";
+import path from "path";
+import { AudioItem, childFolders, isInFolder } from "./audio-item";
+import { LibraryRoot } from "./library-roots";
+
+interface FolderBrowserProps {
+  roots: LibraryRoot[];
+  items: AudioItem[];
+  root?: LibraryRoot; // undefined lists the roots themselves
+  folder: string; // path relative to the root, "" for the root itself
+  includeSubfolders: boolean;
+  onChoose: (rootId: string, folder: string) => void;
+  onIncludeSubfoldersChange: (value: boolean) => void;
+  renderItemActions: (item: AudioItem) => JSX.Element;
+}
+
+/**
+ * Drill-down view over the library's folder tree. Each level is pushed onto the
+ * navigation stack; choosing a folder filters the main list to it.
+ */
+export function FolderBrowser(props: FolderBrowserProps) {
+  const { roots, items, root, folder, onChoose, renderItemActions } = props;
+  // Pushed views don't see parent re-renders, so mirror the toggle locally
+  const [includeSubfolders, setIncludeSubfolders] = useState(
+    props.includeSubfolders
+  );
+
+  function toggleSubfolders() {
+    const next = !includeSubfolders;
+    setIncludeSubfolders(next);
+    props.onIncludeSubfoldersChange(next);
+  }
+
+  function choose(rootId: string, target: string) {
+    onChoose(rootId, target);
+    popToRoot();
+  }
+
+  function pushFolder(nextRoot: LibraryRoot, nextFolder: string): JSX.Element {
+    return (
+      <FolderBrowser
+        {...props}
+        includeSubfolders={includeSubfolders}
+        root={nextRoot}
+        folder={nextFolder}
+      />
+    );
+  }
+
+  const toggleAction = (
+    <Action
+      title={includeSubfolders ? "Exclude Subfolders" : "Include Subfolders"}
+      icon={includeSubfolders ? Icon.Minus : Icon.Plus}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "u" }}
+      onAction={toggleSubfolders}
+    />
+  );
+
+  if (!root) {
+    return (
+      <List
+        navigationTitle="Browse Folders"
+        searchBarPlaceholder="Filter libraries..."
+      >
+        {roots.map((r) => {
+          const count = items.filter((i) => i.root === r.id).length;
+          return (
+            <List.Item
+              key={r.id}
+              title={r.label}
+              subtitle={r.path}
+              icon={Icon.HardDrive}
+              accessories={[{ text: `${count} files` }]}
+              actions={
+                <ActionPanel>
+                  <Action.Push
+                    title="Open"
+                    icon={Icon.ArrowRight}
+                    target={pushFolder(r, "")}
+                  />
+                  <Action
+                    title="Show in List"
+                    icon={Icon.List}
+                    onAction={() => choose(r.id, "")}
+                  />
+                  {toggleAction}
+                </ActionPanel>
+              }
+            />
+          );
+        })}
+      </List>
+    );
+  }
+
+  const subfolders = childFolders(items, root.id, folder);
+  const files = items.filter(
+    (i) => i.root === root.id && isInFolder(i, folder, includeSubfolders)
+  );
+  const title =
+    folder === ""
+      ? root.label
+      : `${root.label} › ${folder.split(path.sep).join(" › ")}`;
+
+  return (
+    <List navigationTitle={title} searchBarPlaceholder="Filter this folder...">
+      <List.Section title="Folders" subtitle={String(subfolders.length)}>
+        {subfolders.map((sub) => (
+          <List.Item
+            key={sub.path}
+            title={sub.name}
+            icon={Icon.Folder}
+            accessories={[{ text: `${sub.fileCount} files` }]}
+            actions={
+              <ActionPanel>
+                <Action.Push
+                  title="Open"
+                  icon={Icon.ArrowRight}
+                  target={pushFolder(root, sub.path)}
+                />
+                <Action
+                  title="Show in List"
+                  icon={Icon.List}
+                  onAction={() => choose(root.id, sub.path)}
+                />
+                {toggleAction}
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+      <List.Section
+        title={includeSubfolders ? "Files (including subfolders)" : "Files"}
+        subtitle={String(files.length)}
+      >
+        {files.map((item) => (
+          <List.Item
+            key={item.path}
+            id={item.path}
+            title={item.name}
+            subtitle={includeSubfolders ? item.category : undefined}
+            icon={Icon.SpeakerOn}
+            actions={
+              <ActionPanel>
+                {renderItemActions(item)}
+                <ActionPanel.Section>
+                  <Action
+                    title="Show Folder in List"
+                    icon={Icon.List}
+                    onAction={() => choose(root.id, folder)}
+                  />
+                  {toggleAction}
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
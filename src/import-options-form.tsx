@@ -0,0 +1,252 @@
+import {
+  Action,
+  ActionPanel,
+  Form,
+  Icon,
+  LocalStorage,
+  useNavigation,
+} from "@raycast/api";
+import path from "path";
+import { useEffect, useState } from "react";
+import { OnDemandCompTarget, OnDemandPlacement } from "./bridge-utils";
+import { ImportPreset, describeImportPreset } from "./import-presets";
+
+// After Effects' label colours in the order of their label indexes
+export const AE_LABELS = [
+  "Red",
+  "Yellow",
+  "Aqua",
+  "Pink",
+  "Lavender",
+  "Peach",
+  "Sea Foam",
+  "Blue",
+  "Green",
+  "Purple",
+  "Orange",
+  "Brown",
+  "Fuchsia",
+  "Cyan",
+  "Sandstone",
+  "Dark Green",
+];
+
+// The comp choice decides which fields show, so the form keeps it in state and
+// remembers it itself rather than through storeValue
+const COMP_CHOICE_KEY = "audioFilesImportComp";
+const COMP_CHOICES: OnDemandCompTarget["by"][] = [
+  "active",
+  "selected",
+  "name",
+  "id",
+];
+
+interface ImportOptionsFormProps {
+  filePath: string;
+  presets: ImportPreset[];
+  defaultPreset?: string; // name of the preset picked at first
+  onImport: (placement: OnDemandPlacement, preset?: ImportPreset) => void;
+}
+
+interface ImportOptionsValues {
+  comp: OnDemandCompTarget["by"];
+  compName: string;
+  compId: string;
+  position: NonNullable<OnDemandPlacement["position"]>;
+  start: NonNullable<OnDemandPlacement["start"]>;
+  inPoint: string;
+  outPoint: string;
+  label: string; // "" keeps AE's default, otherwise 0..16
+  layerName: string;
+  preset: string; // "" for none
+}
+
+function parseSeconds(text: string): number | undefined | null {
+  if (!text.trim()) return undefined;
+  const value = Number(text.trim().replace(/s$/i, ""));
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+/**
+ * Choose where an import lands in After Effects: which comps, where in the
+ * layer stack, when it starts, how it is trimmed, how the layer is named and
+ * labelled and which levels preset it gets. Choices other than the trim, the
+ * layer name and the preset are remembered.
+ */
+export function ImportOptionsForm({
+  filePath,
+  presets,
+  defaultPreset,
+  onImport,
+}: ImportOptionsFormProps) {
+  const { pop } = useNavigation();
+  const [comp, setComp] = useState<OnDemandCompTarget["by"]>("active");
+  const [errors, setErrors] = useState<Record<string, string | undefined>>({});
+
+  useEffect(() => {
+    LocalStorage.getItem(COMP_CHOICE_KEY)
+      .then((stored) => {
+        const match = COMP_CHOICES.find((c) => c === stored);
+        if (match) setComp(match);
+      })
+      .catch((e) => console.error("Failed to load comp choice", e));
+  }, []);
+
+  function handleSubmit(values: ImportOptionsValues) {
+    const inPointSec = parseSeconds(values.inPoint);
+    const outPointSec = parseSeconds(values.outPoint);
+    const compId = Number(values.compId);
+    const next: Record<string, string | undefined> = {
+      compName:
+        values.comp === "name" && !values.compName.trim()
+          ? "Enter a comp name"
+          : undefined,
+      compId:
+        values.comp === "id" && !(Number.isInteger(compId) && compId > 0)
+          ? "Enter a comp ID"
+          : undefined,
+      inPoint: inPointSec === null ? "Enter seconds, e.g. 0.5" : undefined,
+      outPoint:
+        outPointSec === null
+          ? "Enter seconds, e.g. 2"
+          : outPointSec !== undefined &&
+            inPointSec !== undefined &&
+            inPointSec !== null &&
+            outPointSec <= inPointSec
+          ? "Must be after the in point"
+          : undefined,
+    };
+    setErrors(next);
+    if (Object.values(next).some(Boolean)) return;
+
+    const target: OnDemandCompTarget =
+      values.comp === "name"
+        ? { by: "name", name: values.compName.trim() }
+        : values.comp === "id"
+        ? { by: "id", id: compId }
+        : { by: values.comp };
+    LocalStorage.setItem(COMP_CHOICE_KEY, values.comp).catch((e) =>
+      console.error("Failed to save comp choice", e)
+    );
+    onImport(
+      {
+        comp: target,
+        position: values.position,
+        start: values.start,
+        inPointSec: inPointSec ?? undefined,
+        outPointSec: outPointSec ?? undefined,
+        label: values.label === "" ? undefined : Number(values.label),
+        layerName: values.layerName.trim() || undefined,
+      },
+      presets.find((p) => p.name === values.preset)
+    );
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle={`Import ${path.basename(filePath)}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Import to After Effects"
+            icon={Icon.AppWindow}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description title="File" text={path.basename(filePath)} />
+      <Form.Dropdown
+        id="comp"
+        title="Comp"
+        value={comp}
+        onChange={(v) => setComp(v as OnDemandCompTarget["by"])}
+      >
+        <Form.Dropdown.Item value="active" title="Active Comp" />
+        <Form.Dropdown.Item
+          value="selected"
+          title="Comps Selected in Project Panel"
+        />
+        <Form.Dropdown.Item value="name" title="Comp by Name" />
+        <Form.Dropdown.Item value="id" title="Comp by ID" />
+      </Form.Dropdown>
+      {comp === "name" ? (
+        <Form.TextField
+          id="compName"
+          title="Comp Name"
+          placeholder="Main Comp"
+          error={errors.compName}
+          storeValue
+        />
+      ) : null}
+      {comp === "id" ? (
+        <Form.TextField
+          id="compId"
+          title="Comp ID"
+          placeholder="12"
+          info="The item ID, as reported by scripts"
+          error={errors.compId}
+          storeValue
+        />
+      ) : null}
+      <Form.Dropdown id="position" title="Layer Position" storeValue>
+        <Form.Dropdown.Item value="top" title="Top of Comp" />
+        <Form.Dropdown.Item
+          value="aboveSelected"
+          title="Above Selected Layer"
+        />
+        <Form.Dropdown.Item
+          value="belowSelected"
+          title="Below Selected Layer"
+        />
+      </Form.Dropdown>
+      <Form.Dropdown id="start" title="Start At" storeValue>
+        <Form.Dropdown.Item value="playhead" title="Playhead" />
+        <Form.Dropdown.Item value="workAreaStart" title="Work Area Start" />
+      </Form.Dropdown>
+      <Form.Separator />
+      <Form.TextField
+        id="inPoint"
+        title="In Point"
+        placeholder="Start of file"
+        info="Seconds into the sound. The in point lands on the start time."
+        error={errors.inPoint}
+      />
+      <Form.TextField
+        id="outPoint"
+        title="Out Point"
+        placeholder="End of file"
+        info="Seconds into the sound"
+        error={errors.outPoint}
+      />
+      <Form.Separator />
+      <Form.Dropdown id="label" title="Label Colour" storeValue>
+        <Form.Dropdown.Item value="" title="Default" />
+        <Form.Dropdown.Item value="0" title="None" />
+        {AE_LABELS.map((name, i) => (
+          <Form.Dropdown.Item key={name} value={String(i + 1)} title={name} />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField
+        id="layerName"
+        title="Layer Name"
+        placeholder={path.basename(filePath)}
+      />
+      <Form.Dropdown
+        id="preset"
+        title="Levels Preset"
+        defaultValue={defaultPreset ?? ""}
+      >
+        <Form.Dropdown.Item value="" title="None" />
+        {presets.map((p) => (
+          <Form.Dropdown.Item
+            key={p.name}
+            value={p.name}
+            title={`${p.name} (${describeImportPreset(p)})`}
+          />
+        ))}
+      </Form.Dropdown>
+    </Form>
+  );
+}
@@ -0,0 +1,141 @@
+import fs from "fs";
+import path from "path";
+import { OnDemandFadeCurve, OnDemandLevels } from "./bridge-utils";
+
+// Named level treatments applied to a layer on import: fades, a base level
+// and optional ducking under the comp's other audio. Kept as JSON in the
+// extension's support folder so they can be edited by hand; the defaults are
+// written there the first time they are read.
+
+export interface ImportPreset extends OnDemandLevels {
+  name: string;
+}
+
+export const IMPORT_PRESETS_FILE = "import-presets.json";
+const PRESETS_VERSION = 1;
+
+const FADE_CURVES: OnDemandFadeCurve[] = [
+  "linear",
+  "easeIn",
+  "easeOut",
+  "smooth",
+];
+const DEFAULT_RAMP_SEC = 0.25;
+
+export const DEFAULT_IMPORT_PRESETS: ImportPreset[] = [
+  {
+    name: "Music Bed",
+    fadeInSec: 1,
+    fadeOutSec: 2,
+    curve: "smooth",
+    levelDb: -12,
+    ducking: { depthDb: -10, rampSec: 0.25 },
+  },
+  {
+    name: "Soft Edges",
+    fadeInSec: 0.05,
+    fadeOutSec: 0.25,
+    curve: "linear",
+    levelDb: 0,
+  },
+  {
+    name: "Background SFX",
+    fadeInSec: 0.5,
+    fadeOutSec: 1,
+    curve: "easeOut",
+    levelDb: -18,
+  },
+];
+
+export function importPresetsPath(supportPath: string): string {
+  return path.join(supportPath, IMPORT_PRESETS_FILE);
+}
+
+function nonNegative(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+}
+
+function decibels(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value)
+    ? Math.min(24, Math.max(-96, value))
+    : fallback;
+}
+
+/**
+ * Read presets from the file's JSON, field by field. Presets without a name
+ * are dropped; other missing or invalid fields fall back to no fade, 0 dB and
+ * no ducking.
+ */
+export function parseImportPresets(stored: unknown): ImportPreset[] {
+  let raw: { presets?: unknown } = {};
+  try {
+    if (typeof stored === "string") raw = JSON.parse(stored) ?? {};
+  } catch {
+    // corrupt, no presets
+  }
+  if (!Array.isArray(raw.presets)) return [];
+  const presets: ImportPreset[] = [];
+  for (const entry of raw.presets as Partial<ImportPreset>[]) {
+    const name = typeof entry?.name === "string" ? entry.name.trim() : "";
+    if (!name || presets.some((p) => p.name === name)) continue;
+    const ducking = entry.ducking;
+    presets.push({
+      name,
+      fadeInSec: nonNegative(entry.fadeInSec, 0),
+      fadeOutSec: nonNegative(entry.fadeOutSec, 0),
+      curve: FADE_CURVES.includes(entry.curve as OnDemandFadeCurve)
+        ? (entry.curve as OnDemandFadeCurve)
+        : "linear",
+      levelDb: decibels(entry.levelDb, 0),
+      ...(ducking && typeof ducking === "object"
+        ? {
+            ducking: {
+              depthDb: Math.min(0, decibels(ducking.depthDb, -10)),
+              rampSec: nonNegative(ducking.rampSec, DEFAULT_RAMP_SEC),
+            },
+          }
+        : {}),
+    });
+  }
+  return presets;
+}
+
+/**
+ * The presets saved in `supportPath`, creating the file with the defaults
+ * when there is none.
+ */
+export async function loadImportPresets(
+  supportPath: string
+): Promise<ImportPreset[]> {
+  const file = importPresetsPath(supportPath);
+  try {
+    return parseImportPresets(await fs.promises.readFile(file, "utf8"));
+  } catch {
+    // missing, write the defaults
+  }
+  await fs.promises.mkdir(supportPath, { recursive: true });
+  const contents = {
+    version: PRESETS_VERSION,
+    presets: DEFAULT_IMPORT_PRESETS,
+  };
+  await fs.promises.writeFile(file, JSON.stringify(contents, null, 2), "utf8");
+  return DEFAULT_IMPORT_PRESETS;
+}
+
+function formatDb(db: number): string {
+  return db > 0 ? `+${db} dB` : `${db} dB`;
+}
+
+export function describeImportPreset(p: ImportPreset): string {
+  return [
+    p.fadeInSec > 0 || p.fadeOutSec > 0
+      ? `fades ${p.fadeInSec}s/${p.fadeOutSec}s`
+      : "",
+    formatDb(p.levelDb),
+    p.ducking ? `ducks ${formatDb(p.ducking.depthDb)}` : "",
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
@@ -0,0 +1,118 @@
+import { Playback, selectBackend, startPlayback } from "./playback";
+
+// A stack of sounds auditioned together, the way they would be layered in a
+// comp: each starts `offsetSec` after the first and plays at its own gain.
+
+export interface StackLayer {
+  path: string;
+  offsetSec: number; // delay after the start of the stack, >= 0
+  gainDb: number;
+}
+
+export const LAYER_OFFSETS = [0, 0.05, 0.1, 0.25, 0.5, 1, 2];
+export const LAYER_GAINS = [6, 3, 0, -3, -6, -9, -12, -18];
+export const OFFSET_NUDGE_SEC = 0.05;
+
+export function addLayer(stack: StackLayer[], filePath: string): StackLayer[] {
+  if (stack.some((l) => l.path === filePath)) return stack;
+  return [...stack, { path: filePath, offsetSec: 0, gainDb: 0 }];
+}
+
+export function removeLayer(
+  stack: StackLayer[],
+  filePath: string
+): StackLayer[] {
+  return stack.filter((l) => l.path !== filePath);
+}
+
+export function updateLayer(
+  stack: StackLayer[],
+  filePath: string,
+  patch: Partial<Omit<StackLayer, "path">>
+): StackLayer[] {
+  return stack.map((l) =>
+    l.path === filePath
+      ? {
+          ...l,
+          ...patch,
+          offsetSec: Math.max(
+            0,
+            Math.round((patch.offsetSec ?? l.offsetSec) * 1000) / 1000
+          ),
+        }
+      : l
+  );
+}
+
+export function formatOffset(offsetSec: number): string {
+  return offsetSec < 1
+    ? `+${Math.round(offsetSec * 1000)} ms`
+    : `+${offsetSec.toFixed(2)} s`;
+}
+
+export function formatGain(gainDb: number): string {
+  return gainDb > 0 ? `+${gainDb} dB` : `${gainDb} dB`;
+}
+
+export interface StackPlayback {
+  stop(): void;
+}
+
+/**
+ * Play every layer of the stack at once. `volume` scales all of them, like the
+ * preview volume does for single files. `onEnded` runs once the last player
+ * exits or the stack is stopped. Returns null when no layer could be played.
+ */
+export function playLayers(
+  stack: StackLayer[],
+  volume: number,
+  preferredBackend?: string,
+  onEnded?: () => void
+): StackPlayback | null {
+  const players = new Set<Playback>();
+  const timers = new Set<NodeJS.Timeout>();
+  let pending = 0;
+  let finished = false;
+  const settle = () => {
+    if (finished || pending > 0 || players.size > 0) return;
+    finished = true;
+    onEnded?.();
+  };
+
+  for (const layer of stack) {
+    const backend = selectBackend(layer.path, preferredBackend);
+    if (!backend) continue;
+    const layerVolume = Math.min(
+      backend.maxVolume,
+      volume * Math.pow(10, layer.gainDb / 20)
+    );
+    pending++;
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      pending--;
+      const playback = startPlayback(
+        backend,
+        layer.path,
+        { volume: layerVolume },
+        () => {
+          if (playback) players.delete(playback);
+          settle();
+        }
+      );
+      if (playback) players.add(playback);
+      settle();
+    }, layer.offsetSec * 1000);
+    timers.add(timer);
+  }
+  if (pending === 0) return null;
+
+  return {
+    stop: () => {
+      timers.forEach((t) => clearTimeout(t));
+      timers.clear();
+      pending = 0;
+      players.forEach((p) => p.stop());
+      settle();
+    },
+  };
+}
@@ -0,0 +1,406 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { environment } from "@raycast/api";
+import { ROOT_CATEGORY } from "./audio-item";
+import { AudioMetadata } from "./audio-metadata";
+import { LoudnessAnalysis } from "./loudness";
+import { MusicAnalysis } from "./music-analysis";
+
+// On-disk index of an audio library. The command shows the cached file list
+// immediately and reconciles it in the background; only directories whose
+// mtime changed since the last walk are listed again.
+
+const INDEX_VERSION = 1;
+const WALK_CONCURRENCY = 8;
+
+/**
+ * Results of the slower per-file analysers, cached alongside the file entry.
+ */
+export interface FileAnalysis {
+  leadingSilenceSec?: number;
+  loudness?: LoudnessAnalysis | null; // null when the file couldn't be decoded
+  fingerprint?: string | null; // see fingerprint.ts
+  music?: MusicAnalysis | null; // tempo and key, only for longer files
+  features?: number[] | null; // similarity vector, see features.ts
+}
+
+export interface IndexedFile {
+  path: string;
+  name: string;
+  category: string; // subfolder path relative to the root, ROOT_CATEGORY for top level
+  size: number;
+  mtimeMs: number;
+  metadata?: AudioMetadata;
+  hash?: string; // content hash, filled in lazily
+  fullHash?: string; // hash of every byte, to confirm identical copies
+  analysis?: FileAnalysis;
+}
+
+interface IndexedDir {
+  mtimeMs: number;
+  files: string[]; // audio file names directly inside this directory
+  dirs: string[]; // subdirectory names
+}
+
+export interface LibraryIndex {
+  version: number;
+  root: string;
+  updatedAt: number;
+  dirs: Record<string, IndexedDir>;
+  files: Record<string, IndexedFile>;
+}
+
+export interface ReconcileResult {
+  changed: boolean; // true when any file was added, removed, modified or moved
+  added: string[];
+  removed: string[];
+  modified: string[];
+  moved: { from: string; to: string }[];
+}
+
+function indexFilePath(root: string): string {
+  const key = crypto
+    .createHash("sha1")
+    .update(path.resolve(root))
+    .digest("hex")
+    .slice(0, 16);
+  return path.join(environment.supportPath, `library-index-${key}.json`);
+}
+
+function emptyIndex(root: string): LibraryIndex {
+  return { version: INDEX_VERSION, root, updatedAt: 0, dirs: {}, files: {} };
+}
+
+/**
+ * Load the cached index for a library root. Returns an empty index when none
+ * exists yet or the cached one is unreadable.
+ */
+export async function loadLibraryIndex(root: string): Promise<LibraryIndex> {
+  try {
+    const content = await fs.promises.readFile(indexFilePath(root), "utf8");
+    const parsed = JSON.parse(content) as LibraryIndex;
+    if (
+      parsed?.version === INDEX_VERSION &&
+      parsed.root === root &&
+      parsed.dirs &&
+      parsed.files
+    ) {
+      return parsed;
+    }
+  } catch {
+    // missing or corrupt, start over
+  }
+  return emptyIndex(root);
+}
+
+/**
+ * Write the index atomically so a crash never leaves a truncated file.
+ */
+export async function saveLibraryIndex(index: LibraryIndex): Promise<void> {
+  const target = indexFilePath(index.root);
+  await fs.promises.mkdir(path.dirname(target), { recursive: true });
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tmp, JSON.stringify(index), "utf8");
+  await fs.promises.rename(tmp, target);
+}
+
+export function indexedFiles(index: LibraryIndex): IndexedFile[] {
+  return Object.values(index.files);
+}
+
+/**
+ * Store derived data for a file. Ignored if the file is no longer indexed.
+ */
+export function updateIndexedFile(
+  index: LibraryIndex,
+  filePath: string,
+  patch: Partial<
+    Pick<IndexedFile, "metadata" | "hash" | "fullHash" | "analysis">
+  >
+) {
+  const entry = index.files[filePath];
+  if (!entry) return;
+  index.files[filePath] = {
+    ...entry,
+    ...patch,
+    analysis: patch.analysis
+      ? { ...entry.analysis, ...patch.analysis }
+      : entry.analysis,
+  };
+}
+
+const HASH_SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Identify a file by its content rather than its path: size plus the first and
+ * last 64 KB. Cheap enough for large files and stable across machines.
+ */
+export async function computeContentHash(
+  filePath: string
+): Promise<string | undefined> {
+  let handle: fs.promises.FileHandle | undefined;
+  try {
+    handle = await fs.promises.open(filePath, "r");
+    const { size } = await handle.stat();
+    const hash = crypto.createHash("sha1").update(String(size));
+    const head = Buffer.alloc(Math.min(HASH_SAMPLE_BYTES, size));
+    await handle.read(head, 0, head.length, 0);
+    hash.update(head);
+    if (size > HASH_SAMPLE_BYTES) {
+      const tailStart = Math.max(HASH_SAMPLE_BYTES, size - HASH_SAMPLE_BYTES);
+      const tail = Buffer.alloc(size - tailStart);
+      await handle.read(tail, 0, tail.length, tailStart);
+      hash.update(tail);
+    }
+    return hash.digest("hex");
+  } catch {
+    return undefined;
+  } finally {
+    await handle?.close();
+  }
+}
+
+/**
+ * The cached content hash of an indexed file, computing it on first use.
+ */
+export async function ensureContentHash(
+  index: LibraryIndex,
+  filePath: string
+): Promise<string | undefined> {
+  const entry = index.files[filePath];
+  if (!entry) return undefined;
+  if (entry.hash) return entry.hash;
+  const hash = await computeContentHash(filePath);
+  if (hash) updateIndexedFile(index, filePath, { hash });
+  return hash;
+}
+
+/**
+ * Hash every byte of a file. The content hash only samples the ends, so two
+ * files can share it and still differ in the middle; this one tells whether
+ * they are really the same.
+ */
+export async function computeFullHash(
+  filePath: string
+): Promise<string | undefined> {
+  try {
+    const hash = crypto.createHash("sha1");
+    for await (const chunk of fs.createReadStream(filePath)) {
+      hash.update(chunk as Buffer);
+    }
+    return hash.digest("hex");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The cached full hash of an indexed file, computing it on first use.
+ */
+export async function ensureFullHash(
+  index: LibraryIndex,
+  filePath: string
+): Promise<string | undefined> {
+  const entry = index.files[filePath];
+  if (!entry) return undefined;
+  if (entry.fullHash) return entry.fullHash;
+  const fullHash = await computeFullHash(filePath);
+  if (fullHash) updateIndexedFile(index, filePath, { fullHash });
+  return fullHash;
+}
+
+/**
+ * Walk the library and bring the index up to date. Directories whose mtime is
+ * unchanged (and that are not in `dirtyDirs`) reuse their cached listing.
+ */
+export async function reconcileLibraryIndex(
+  index: LibraryIndex,
+  isAudioFile: (name: string) => boolean,
+  options?: { dirtyDirs?: Set<string> }
+): Promise<ReconcileResult> {
+  const result: ReconcileResult = {
+    changed: false,
+    added: [],
+    removed: [],
+    modified: [],
+    moved: [],
+  };
+  const removedEntries = new Map<string, IndexedFile>();
+  const seenDirs = new Set<string>();
+  const limit = createLimiter(WALK_CONCURRENCY);
+
+  const visit = async (dir: string): Promise<void> => {
+    seenDirs.add(dir);
+    let stat: fs.Stats;
+    try {
+      stat = await limit(() => fs.promises.stat(dir));
+    } catch (error) {
+      console.error("Error reading directory", dir, error);
+      return;
+    }
+    const cached = index.dirs[dir];
+    const dirty = options?.dirtyDirs?.has(dir) ?? false;
+    if (cached && cached.mtimeMs === stat.mtimeMs && !dirty) {
+      await Promise.all(cached.dirs.map((d) => visit(path.join(dir, d))));
+      return;
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      entries = await limit(() =>
+        fs.promises.readdir(dir, { withFileTypes: true })
+      );
+    } catch (error) {
+      console.error("Error reading directory", dir, error);
+      return;
+    }
+
+    const files: string[] = [];
+    const dirs: string[] = [];
+    const relative = path.relative(index.root, dir);
+    const category = relative === "" ? ROOT_CATEGORY : relative;
+    await Promise.all(
+      entries.map(async (entry) => {
+        const full = path.join(dir, entry.name);
+        let isDir = entry.isDirectory();
+        let isFile = entry.isFile();
+        if (entry.isSymbolicLink()) {
+          try {
+            const target = await limit(() => fs.promises.stat(full));
+            isDir = target.isDirectory();
+            isFile = target.isFile();
+          } catch {
+            return; // dangling link
+          }
+        }
+        if (isDir) {
+          dirs.push(entry.name);
+          return;
+        }
+        if (!isFile || !isAudioFile(entry.name)) return;
+        let fileStat: fs.Stats;
+        try {
+          fileStat = await limit(() => fs.promises.stat(full));
+        } catch {
+          return; // removed while we were listing
+        }
+        files.push(entry.name);
+        const prev = index.files[full];
+        if (
+          prev &&
+          prev.size === fileStat.size &&
+          prev.mtimeMs === fileStat.mtimeMs
+        ) {
+          return;
+        }
+        // New or changed file: derived data is stale, start fresh
+        index.files[full] = {
+          path: full,
+          name: entry.name,
+          category,
+          size: fileStat.size,
+          mtimeMs: fileStat.mtimeMs,
+        };
+        (prev ? result.modified : result.added).push(full);
+      })
+    );
+
+    // Files that disappeared from this directory
+    const present = new Set(files);
+    for (const name of cached?.files ?? []) {
+      if (!present.has(name)) {
+        const full = path.join(dir, name);
+        if (index.files[full]) removedEntries.set(full, index.files[full]);
+        delete index.files[full];
+        result.removed.push(full);
+      }
+    }
+    files.sort();
+    dirs.sort();
+    index.dirs[dir] = { mtimeMs: stat.mtimeMs, files, dirs };
+    await Promise.all(dirs.map((d) => visit(path.join(dir, d))));
+  };
+
+  await visit(index.root);
+
+  // Directories that no longer exist anywhere in the tree
+  for (const dir of Object.keys(index.dirs)) {
+    if (seenDirs.has(dir)) continue;
+    for (const name of index.dirs[dir].files) {
+      const full = path.join(dir, name);
+      if (index.files[full]) {
+        removedEntries.set(full, index.files[full]);
+        delete index.files[full];
+        result.removed.push(full);
+      }
+    }
+    delete index.dirs[dir];
+  }
+
+  detectMoves(index, result, removedEntries);
+  result.changed =
+    result.added.length > 0 ||
+    result.removed.length > 0 ||
+    result.modified.length > 0 ||
+    result.moved.length > 0;
+  index.updatedAt = Date.now();
+  return result;
+}
+
+/**
+ * A rename or move shows up as a removal plus an addition with the same size
+ * and mtime. Pair those up (preferring the same file name) and carry the
+ * derived data over so it is not recomputed.
+ */
+function detectMoves(
+  index: LibraryIndex,
+  result: ReconcileResult,
+  removedEntries: Map<string, IndexedFile>
+) {
+  if (removedEntries.size === 0 || result.added.length === 0) return;
+  const candidates = [...removedEntries.values()];
+  const stillAdded: string[] = [];
+  for (const added of result.added) {
+    const entry = index.files[added];
+    const matches = candidates.filter(
+      (c) => c.size === entry.size && c.mtimeMs === entry.mtimeMs
+    );
+    const match =
+      matches.find((c) => c.name === entry.name) ??
+      (matches.length === 1 ? matches[0] : undefined);
+    if (!match) {
+      stillAdded.push(added);
+      continue;
+    }
+    candidates.splice(candidates.indexOf(match), 1);
+    index.files[added] = {
+      ...entry,
+      metadata: match.metadata,
+      hash: match.hash,
+      fullHash: match.fullHash,
+      analysis: match.analysis,
+    };
+    result.moved.push({ from: match.path, to: added });
+  }
+  const movedFrom = new Set(result.moved.map((m) => m.from));
+  result.added = stillAdded;
+  result.removed = result.removed.filter((p) => !movedFrom.has(p));
+}
+
+function createLimiter(concurrency: number) {
+  let active = 0;
+  const queue: (() => void)[] = [];
+  return async function limit<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= concurrency) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    }
+    active++;
+    try {
+      return await task();
+    } finally {
+      active--;
+      queue.shift()?.();
+    }
+  };
+}
@@ -0,0 +1,81 @@
+import os from "os";
+import path from "path";
+
+// Library roots come from preferences: the main audio folder plus any number of
+// extra "Label=/path" entries. The label doubles as the root id, so it stays the
+// same when a teammate mounts the library somewhere else.
+
+export interface LibraryRoot {
+  id: string;
+  label: string;
+  path: string;
+}
+
+export interface RootPreferences {
+  audioFolder?: string;
+  audioFolderLabel?: string;
+  additionalRoots?: string;
+}
+
+function expandHome(p: string): string {
+  if (p === "~") return os.homedir();
+  if (p.startsWith("~/")) return path.join(os.homedir(), p.slice(2));
+  return p;
+}
+
+/**
+ * Build the list of library roots from preferences. `additionalRoots` holds
+ * entries separated by ";" or new lines, each either "Label=/path" or a bare
+ * path (labelled with its folder name). Duplicate paths are dropped and
+ * duplicate labels get a numeric suffix.
+ */
+export function parseLibraryRoots(prefs: RootPreferences): LibraryRoot[] {
+  const entries: { label: string; path: string }[] = [];
+  if (prefs.audioFolder?.trim()) {
+    const p = expandHome(prefs.audioFolder.trim());
+    entries.push({
+      label: prefs.audioFolderLabel?.trim() || path.basename(p) || "Library",
+      path: p,
+    });
+  }
+  for (const raw of (prefs.additionalRoots || "").split(/[;\n]/)) {
+    const entry = raw.trim();
+    if (!entry) continue;
+    const eq = entry.indexOf("=");
+    const label = eq > 0 ? entry.slice(0, eq).trim() : "";
+    const p = expandHome((eq > 0 ? entry.slice(eq + 1) : entry).trim());
+    if (!p) continue;
+    entries.push({ label: label || path.basename(p) || p, path: p });
+  }
+
+  const roots: LibraryRoot[] = [];
+  const seenPaths = new Set<string>();
+  const seenIds = new Set<string>();
+  for (const entry of entries) {
+    const resolved = path.resolve(entry.path);
+    if (seenPaths.has(resolved)) continue;
+    seenPaths.add(resolved);
+    let id = entry.label;
+    for (let n = 2; seenIds.has(id); n++) id = `${entry.label} ${n}`;
+    seenIds.add(id);
+    roots.push({ id, label: id, path: resolved });
+  }
+  return roots;
+}
+
+/**
+ * The root that contains `filePath`, preferring the most specific one when
+ * roots are nested.
+ */
+export function findRootForPath(
+  roots: LibraryRoot[],
+  filePath: string
+): LibraryRoot | undefined {
+  let best: LibraryRoot | undefined;
+  for (const root of roots) {
+    const rel = path.relative(root.path, filePath);
+    if (rel.startsWith("..") || path.isAbsolute(rel)) continue;
+    if (!best || root.path.length > best.path.length) best = root;
+  }
+  return best;
+}
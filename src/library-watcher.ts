@@ -0,0 +1,108 @@
+import fs from "fs";
+import path from "path";
+
+// Recursive, debounced watcher for a library root. It only reports which
+// directories look dirty; the library index decides what actually changed.
+
+const DEFAULT_DEBOUNCE_MS = 400;
+const MAX_WAIT_MS = 3000;
+const POLL_INTERVAL_MS = 30000;
+
+// Editors, DAWs, browsers and sync clients write through temp files first
+const TEMP_NAME_PATTERNS = [
+  /^\./, // .DS_Store, ._resource forks, .sb-xxxx (Finder), .~lock
+  /^~\$/, // Office-style lock files
+  /~$/, // backup copies
+  /\.(tmp|temp|part|partial|crdownload|download|swp|lock)$/i,
+  /\.sync-conflict-/i,
+];
+
+export function isTemporaryFileName(name: string): boolean {
+  return TEMP_NAME_PATTERNS.some((re) => re.test(name));
+}
+
+/**
+ * Watch `root` recursively and call `onChange` with the set of directories
+ * that need to be listed again. Falls back to periodic polling where recursive
+ * watching is not available. Returns a function that stops watching.
+ */
+export function watchLibrary(
+  root: string,
+  onChange: (dirtyDirs: Set<string>) => void,
+  options?: { debounceMs?: number }
+): () => void {
+  const debounceMs = options?.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  let dirty = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let firstEventAt = 0;
+  let watcher: fs.FSWatcher | null = null;
+  let poller: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  const flush = () => {
+    timer = null;
+    firstEventAt = 0;
+    const batch = dirty;
+    dirty = new Set();
+    if (!closed) onChange(batch);
+  };
+
+  const schedule = () => {
+    const now = Date.now();
+    if (!firstEventAt) firstEventAt = now;
+    if (timer) clearTimeout(timer);
+    // Keep debouncing while events arrive, but never hold changes forever
+    const wait = Math.min(
+      debounceMs,
+      Math.max(0, firstEventAt + MAX_WAIT_MS - now)
+    );
+    timer = setTimeout(flush, wait);
+  };
+
+  const handleEvent = (filename: string | Buffer | null) => {
+    if (!filename) {
+      // Some platforms omit the name; re-list everything
+      dirty.add(root);
+      schedule();
+      return;
+    }
+    const relative = filename.toString();
+    const segments = relative.split(path.sep);
+    if (segments.some(isTemporaryFileName)) return;
+    const full = path.join(root, relative);
+    dirty.add(path.dirname(full));
+    // If the path is (or was) a directory it needs listing too
+    dirty.add(full);
+    schedule();
+  };
+
+  const startPolling = () => {
+    if (poller || closed) return;
+    poller = setInterval(() => {
+      dirty.add(root);
+      flush();
+    }, POLL_INTERVAL_MS);
+  };
+
+  try {
+    watcher = fs.watch(root, { recursive: true }, (_event, filename) =>
+      handleEvent(filename)
+    );
+    watcher.on("error", (e) => {
+      console.error("Library watcher failed, falling back to polling", e);
+      watcher?.close();
+      watcher = null;
+      startPolling();
+    });
+  } catch (e) {
+    console.error("Recursive watch unavailable, polling instead", e);
+    startPolling();
+  }
+
+  return () => {
+    closed = true;
+    if (timer) clearTimeout(timer);
+    if (poller) clearInterval(poller);
+    watcher?.close();
+  };
+}
@@ -0,0 +1,218 @@
+import { openPcmOrThrow } from "./pcm-decoder";
+import { Biquad, BiquadState } from "./dsp";
+
+// Loudness measurement after ITU-R BS.1770-4 / EBU R128: K-weighted, gated
+// integrated loudness, 4x oversampled true peak and plain RMS.
+
+export interface LoudnessAnalysis {
+  integratedLufs: number | null; // null for digital silence
+  truePeakDb: number; // dBTP
+  rmsDb: number; // dBFS, all channels
+}
+
+const BLOCK_SEC = 0.4;
+const SEGMENTS_PER_BLOCK = 4; // 75% overlap: blocks advance by 100 ms
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const OVERSAMPLE = 4;
+const TAPS_PER_PHASE = 12;
+const SILENCE_DB = -120;
+
+// Channel weights per BS.1770 for the common 5.1 order L R C LFE Ls Rs; the
+// LFE channel is left out
+function channelWeights(channels: number): number[] {
+  if (channels === 6) return [1, 1, 1, 0, 1.41, 1.41];
+  return new Array(channels).fill(1);
+}
+
+// The two K-weighting stages (high shelf, then high pass), derived for any
+// sample rate with the constants used by libebur128
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  let f0 = 1681.974450955533;
+  const gainDb = 3.999843853973347;
+  let q = 0.7071752369554196;
+  let k = Math.tan((Math.PI * f0) / sampleRate);
+  const vh = Math.pow(10, gainDb / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+  return [shelf, highPass];
+}
+
+// Windowed-sinc interpolation filter split into OVERSAMPLE phases
+function interpolationPhases(): Float64Array[] {
+  const taps = OVERSAMPLE * TAPS_PER_PHASE;
+  const center = (taps - 1) / 2;
+  const phases = Array.from(
+    { length: OVERSAMPLE },
+    () => new Float64Array(TAPS_PER_PHASE)
+  );
+  for (let m = 0; m < taps; m++) {
+    const t = (m - center) / OVERSAMPLE;
+    const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (m + 0.5)) / taps);
+    phases[m % OVERSAMPLE][Math.floor(m / OVERSAMPLE)] = sinc * window;
+  }
+  // Each phase should pass DC at unity gain
+  for (const phase of phases) {
+    const sum = phase.reduce((a, b) => a + b, 0);
+    for (let i = 0; i < phase.length; i++) phase[i] /= sum;
+  }
+  return phases;
+}
+
+function toDb(linear: number): number {
+  return linear > 0
+    ? Math.max(SILENCE_DB, 20 * Math.log10(linear))
+    : SILENCE_DB;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Integrated loudness of the gated 400 ms blocks, given the mean weighted
+ * power of each block.
+ */
+function gatedLoudness(blockPowers: number[]): number | null {
+  const lufs = (power: number) => -0.691 + 10 * Math.log10(power);
+  const aboveAbsolute = blockPowers.filter(
+    (p) => p > 0 && lufs(p) > ABSOLUTE_GATE_LUFS
+  );
+  if (aboveAbsolute.length === 0) return null;
+  const mean = (list: number[]) =>
+    list.reduce((a, b) => a + b, 0) / list.length;
+  const relativeGate = lufs(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const aboveRelative = aboveAbsolute.filter((p) => lufs(p) > relativeGate);
+  return lufs(mean(aboveRelative));
+}
+
+/**
+ * Measure a file's loudness. Returns null when the file can't be decoded, and
+ * throws when that may change (see openPcmOrThrow).
+ */
+export async function analyzeLoudness(
+  filePath: string
+): Promise<LoudnessAnalysis | null> {
+  const stream = await openPcmOrThrow(filePath);
+  if (!stream) return null;
+  try {
+    const { sampleRate, channels } = stream;
+    const weights = channelWeights(channels);
+    const filters = weights.map(() => {
+      const [shelf, highPass] = kWeightingFilters(sampleRate);
+      return [new BiquadState(shelf), new BiquadState(highPass)];
+    });
+    const phases = interpolationPhases();
+    // Last TAPS_PER_PHASE input samples per channel, newest first
+    const history = weights.map(() => new Float64Array(TAPS_PER_PHASE));
+
+    const segmentFrames = Math.round(
+      (sampleRate * BLOCK_SEC) / SEGMENTS_PER_BLOCK
+    );
+    const segmentPowers: number[] = [];
+    let segmentSum = 0;
+    let segmentCount = 0;
+    let totalWeighted = 0;
+    let totalFrames = 0;
+    let sumSquares = 0;
+    let peak = 0;
+
+    for await (const planes of stream.chunks()) {
+      const frames = planes[0].length;
+      for (let i = 0; i < frames; i++) {
+        let weighted = 0;
+        for (let c = 0; c < channels; c++) {
+          const x = planes[c][i];
+          sumSquares += x * x;
+
+          const h = history[c];
+          h.copyWithin(1, 0);
+          h[0] = x;
+          const abs = Math.abs(x);
+          if (abs > peak) peak = abs;
+          // Inter-sample peaks only matter next to loud samples; skipping the
+          // interpolation elsewhere keeps long files fast
+          if (abs > peak * 0.5 || Math.abs(h[1]) > peak * 0.5) {
+            for (const phase of phases) {
+              let y = 0;
+              for (let t = 0; t < TAPS_PER_PHASE; t++) y += phase[t] * h[t];
+              const ay = Math.abs(y);
+              if (ay > peak) peak = ay;
+            }
+          }
+
+          if (weights[c] === 0) continue;
+          const z = filters[c][1].process(filters[c][0].process(x));
+          weighted += weights[c] * z * z;
+        }
+        segmentSum += weighted;
+        totalWeighted += weighted;
+        totalFrames++;
+        if (++segmentCount === segmentFrames) {
+          segmentPowers.push(segmentSum / segmentFrames);
+          segmentSum = 0;
+          segmentCount = 0;
+        }
+      }
+    }
+    if (totalFrames === 0) return null;
+
+    const blockPowers: number[] = [];
+    for (let i = 0; i + SEGMENTS_PER_BLOCK <= segmentPowers.length; i++) {
+      let sum = 0;
+      for (let j = 0; j < SEGMENTS_PER_BLOCK; j++) sum += segmentPowers[i + j];
+      blockPowers.push(sum / SEGMENTS_PER_BLOCK);
+    }
+    // Sounds shorter than one block are measured as a single block
+    if (blockPowers.length === 0) blockPowers.push(totalWeighted / totalFrames);
+
+    const integrated = gatedLoudness(blockPowers);
+    return {
+      integratedLufs: integrated === null ? null : round1(integrated),
+      truePeakDb: round1(toDb(peak)),
+      rmsDb: round1(toDb(Math.sqrt(sumSquares / (totalFrames * channels)))),
+    };
+  } finally {
+    await stream.close();
+  }
+}
+
+/**
+ * Gain in dB that brings a file to `targetLufs` without pushing its true peak
+ * above `ceilingDb`. Returns 0 when the file has no measurable loudness.
+ */
+export function loudnessMatchGainDb(
+  analysis: LoudnessAnalysis,
+  targetLufs: number,
+  ceilingDb = -1
+): number {
+  if (analysis.integratedLufs === null) return 0;
+  const gain = targetLufs - analysis.integratedLufs;
+  return Math.min(gain, ceilingDb - analysis.truePeakDb);
+}
+
+export function formatLufs(value: number | null | undefined): string {
+  return value === null || value === undefined
+    ? ""
+    : `${value.toFixed(1)} LUFS`;
+}
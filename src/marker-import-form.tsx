@@ -0,0 +1,127 @@
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api";
+import path from "path";
+import { useState } from "react";
+import { ImportPreset, describeImportPreset } from "./import-presets";
+
+export interface MarkerImportOptions {
+  sounds: string[]; // in the order successive markers cycle through them
+  markers: "comp" | "layer";
+  pattern: string;
+  preset?: ImportPreset;
+}
+
+interface MarkerImportFormProps {
+  filePath: string;
+  // Other sounds offered for alternating, such as the layer stack
+  otherSounds: string[];
+  presets: ImportPreset[];
+  defaultPreset?: string; // name of the preset picked at first
+  onImport: (options: MarkerImportOptions) => void;
+}
+
+interface MarkerImportValues {
+  sounds: string[];
+  markers: MarkerImportOptions["markers"];
+  pattern: string;
+  preset: string; // "" for none
+}
+
+/**
+ * Place a sound on every marker of the active comp, or of its selected layer,
+ * whose comment matches a pattern. With several sounds picked, successive
+ * markers alternate between them. A levels preset applies to every placed
+ * layer.
+ */
+export function MarkerImportForm({
+  filePath,
+  otherSounds,
+  presets,
+  defaultPreset,
+  onImport,
+}: MarkerImportFormProps) {
+  const { pop } = useNavigation();
+  const [errors, setErrors] = useState<Record<string, string | undefined>>({});
+  const options = [...new Set([filePath, ...otherSounds])];
+
+  function handleSubmit(values: MarkerImportValues) {
+    const pattern = values.pattern.trim();
+    let patternError: string | undefined;
+    try {
+      new RegExp(pattern, "i");
+    } catch {
+      patternError = "Not a valid regular expression";
+    }
+    const next = {
+      sounds:
+        values.sounds.length === 0 ? "Pick at least one sound" : undefined,
+      pattern: patternError,
+    };
+    setErrors(next);
+    if (next.sounds || next.pattern) return;
+    onImport({
+      sounds: values.sounds,
+      markers: values.markers,
+      pattern,
+      preset: presets.find((p) => p.name === values.preset),
+    });
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle="Place on Markers"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Place on Markers"
+            icon={Icon.Pin}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TagPicker
+        id="sounds"
+        title="Sounds"
+        defaultValue={[filePath]}
+        error={errors.sounds}
+        info="With several sounds, successive markers alternate between them in this order"
+      >
+        {options.map((p) => (
+          <Form.TagPicker.Item
+            key={p}
+            value={p}
+            title={path.basename(p)}
+            icon={Icon.Music}
+          />
+        ))}
+      </Form.TagPicker>
+      <Form.Dropdown id="markers" title="Markers" storeValue>
+        <Form.Dropdown.Item value="comp" title="Active Comp's Markers" />
+        <Form.Dropdown.Item value="layer" title="Selected Layer's Markers" />
+      </Form.Dropdown>
+      <Form.TextField
+        id="pattern"
+        title="Comment Matches"
+        placeholder="All markers"
+        info="A regular expression, case-insensitive, e.g. ^beat or hit|cut"
+        error={errors.pattern}
+        storeValue
+      />
+      <Form.Dropdown
+        id="preset"
+        title="Levels Preset"
+        defaultValue={defaultPreset ?? ""}
+      >
+        <Form.Dropdown.Item value="" title="None" />
+        {presets.map((p) => (
+          <Form.Dropdown.Item
+            key={p.name}
+            value={p.name}
+            title={`${p.name} (${describeImportPreset(p)})`}
+          />
+        ))}
+      </Form.Dropdown>
+    </Form>
+  );
+}
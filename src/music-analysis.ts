@@ -0,0 +1,301 @@
+import { decodeMono } from "./pcm-decoder";
+import { Fft, hannWindow } from "./dsp";
+
+// Tempo and key estimation for music beds. Tempo comes from the
+// autocorrelation of a spectral-flux onset envelope; key from a chroma profile
+// matched against the Krumhansl-Kessler key profiles.
+
+export type KeyMode = "major" | "minor";
+
+export interface MusicalKey {
+  pitchClass: number; // 0 = C
+  mode: KeyMode;
+  confidence: number; // correlation with the key profile, -1..1
+}
+
+export interface MusicAnalysis {
+  bpm: number | null; // null when there is no steady beat
+  bpmConfidence: number; // 0..1
+  key: MusicalKey | null;
+}
+
+// Only files this long are analysed; shorter ones are effects, not music
+export const MIN_MUSIC_SEC = 8;
+
+const ANALYSIS_RATE = 11025;
+const MAX_ANALYSIS_SEC = 120;
+
+const ONSET_FFT = 512;
+const ONSET_HOP = 128;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+// Tempos near 120 BPM are preferred when several periods fit about as well
+const PREFERRED_BPM = 120;
+const PREFERENCE_OCTAVES = 1;
+const MIN_BPM_CONFIDENCE = 0.1;
+const FULL_SCALE = ONSET_FFT / 4; // Hann-windowed sine magnitude
+const SPECTRUM_FLOOR = 1e-4;
+
+const CHROMA_FFT = 4096;
+const CHROMA_HOP = 2048;
+const MIN_PITCH_HZ = 55;
+const MAX_PITCH_HZ = 2000;
+
+export const PITCH_NAMES = [
+  "C",
+  "C#",
+  "D",
+  "Eb",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "Ab",
+  "A",
+  "Bb",
+  "B",
+];
+
+const MAJOR_PROFILE = [
+  6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88,
+];
+const MINOR_PROFILE = [
+  6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17,
+];
+
+/**
+ * Spectral flux per hop: how much the log spectrum rose since the previous
+ * frame, with the local average subtracted so only onsets stand out.
+ */
+function onsetEnvelope(
+  samples: Float32Array,
+  sampleRate: number
+): Float64Array {
+  const fft = new Fft(ONSET_FFT);
+  const window = hannWindow(ONSET_FFT);
+  const frames = Math.max(
+    0,
+    Math.floor((samples.length - ONSET_FFT) / ONSET_HOP) + 1
+  );
+  const flux = new Float64Array(frames);
+  let previous: Float64Array | null = null;
+  let spectrum = new Float64Array(ONSET_FFT / 2 + 1);
+  for (let f = 0; f < frames; f++) {
+    const start = f * ONSET_HOP;
+    fft.magnitudes(
+      samples.subarray(start, start + ONSET_FFT),
+      window,
+      spectrum
+    );
+    // Log magnitude relative to a full-scale sine, floored at -80 dB so that
+    // fluctuations in the noise floor don't register as onsets
+    for (let k = 0; k < spectrum.length; k++) {
+      spectrum[k] = Math.log(
+        Math.max(spectrum[k] / FULL_SCALE, SPECTRUM_FLOOR)
+      );
+    }
+    if (previous) {
+      let sum = 0;
+      for (let k = 0; k < spectrum.length; k++) {
+        const rise = spectrum[k] - previous[k];
+        if (rise > 0) sum += rise;
+      }
+      flux[f] = sum;
+    }
+    const swap: Float64Array = previous ?? new Float64Array(spectrum.length);
+    previous = spectrum;
+    spectrum = swap;
+  }
+
+  // Subtract a moving average over about a second and keep what is above it
+  const radius = Math.round(sampleRate / ONSET_HOP / 2);
+  const envelope = new Float64Array(frames);
+  let windowSum = 0;
+  for (let i = 0; i < Math.min(radius, frames); i++) windowSum += flux[i];
+  for (let f = 0; f < frames; f++) {
+    if (f + radius < frames) windowSum += flux[f + radius];
+    if (f - radius - 1 >= 0) windowSum -= flux[f - radius - 1];
+    const count = Math.min(frames, f + radius + 1) - Math.max(0, f - radius);
+    envelope[f] = Math.max(0, flux[f] - windowSum / count);
+  }
+  return envelope;
+}
+
+function estimateTempo(
+  samples: Float32Array,
+  sampleRate: number
+): { bpm: number | null; confidence: number } {
+  const envelope = onsetEnvelope(samples, sampleRate);
+  const framesPerSec = sampleRate / ONSET_HOP;
+  const minLag = Math.floor((60 / MAX_BPM) * framesPerSec);
+  const maxLag = Math.ceil((60 / MIN_BPM) * framesPerSec);
+  if (envelope.length < maxLag * 4) return { bpm: null, confidence: 0 };
+  // Without the mean, a steady envelope (drones, noise) correlates with nothing
+  const mean = envelope.reduce((sum, v) => sum + v, 0) / envelope.length;
+  for (let i = 0; i < envelope.length; i++) envelope[i] -= mean;
+
+  const autocorrelation = (lag: number) => {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) {
+      sum += envelope[i] * envelope[i - lag];
+    }
+    return sum / (envelope.length - lag);
+  };
+  const energy = autocorrelation(0);
+  if (energy <= 0) return { bpm: null, confidence: 0 };
+
+  const scores = new Float64Array(maxLag + 2);
+  let bestLag = -1;
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    scores[lag] = autocorrelation(lag);
+  }
+  let bestWeighted = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * framesPerSec) / lag;
+    const octaves = Math.log2(bpm / PREFERRED_BPM) / PREFERENCE_OCTAVES;
+    const weighted = scores[lag] * Math.exp(-0.5 * octaves * octaves);
+    if (weighted > bestWeighted) {
+      bestWeighted = weighted;
+      bestLag = lag;
+    }
+  }
+  if (bestLag < 0) return { bpm: null, confidence: 0 };
+
+  // Parabolic interpolation between neighbouring lags for sub-frame accuracy
+  const a = scores[bestLag - 1];
+  const b = scores[bestLag];
+  const c = scores[bestLag + 1];
+  const denominator = a - 2 * b + c;
+  const shift = denominator < 0 ? (0.5 * (a - c)) / denominator : 0;
+  const lag = bestLag + Math.max(-0.5, Math.min(0.5, shift));
+  const confidence = Math.max(0, Math.min(1, b / energy));
+  if (confidence < MIN_BPM_CONFIDENCE) return { bpm: null, confidence };
+  return { bpm: Math.round(((60 * framesPerSec) / lag) * 10) / 10, confidence };
+}
+
+function chromaProfile(samples: Float32Array, sampleRate: number): number[] {
+  const fft = new Fft(CHROMA_FFT);
+  const window = hannWindow(CHROMA_FFT);
+  const spectrum = new Float64Array(CHROMA_FFT / 2 + 1);
+  // Pitch class of every bin in range, -1 for the rest
+  const pitchOfBin = new Int8Array(spectrum.length).fill(-1);
+  for (let k = 1; k < spectrum.length; k++) {
+    const hz = (k * sampleRate) / CHROMA_FFT;
+    if (hz < MIN_PITCH_HZ || hz > MAX_PITCH_HZ) continue;
+    const midi = Math.round(69 + 12 * Math.log2(hz / 440));
+    pitchOfBin[k] = ((midi % 12) + 12) % 12;
+  }
+  const chroma = new Array(12).fill(0);
+  for (
+    let start = 0;
+    start + CHROMA_FFT <= samples.length;
+    start += CHROMA_HOP
+  ) {
+    fft.magnitudes(
+      samples.subarray(start, start + CHROMA_FFT),
+      window,
+      spectrum
+    );
+    for (let k = 0; k < spectrum.length; k++) {
+      if (pitchOfBin[k] >= 0) chroma[pitchOfBin[k]] += spectrum[k];
+    }
+  }
+  return chroma;
+}
+
+function correlation(a: number[], b: number[]): number {
+  const mean = (v: number[]) => v.reduce((s, x) => s + x, 0) / v.length;
+  const ma = mean(a);
+  const mb = mean(b);
+  let num = 0;
+  let da = 0;
+  let db = 0;
+  for (let i = 0; i < a.length; i++) {
+    num += (a[i] - ma) * (b[i] - mb);
+    da += (a[i] - ma) ** 2;
+    db += (b[i] - mb) ** 2;
+  }
+  return da > 0 && db > 0 ? num / Math.sqrt(da * db) : 0;
+}
+
+function estimateKey(
+  samples: Float32Array,
+  sampleRate: number
+): MusicalKey | null {
+  const chroma = chromaProfile(samples, sampleRate);
+  if (chroma.every((v) => v === 0)) return null;
+  let best: MusicalKey | null = null;
+  for (let tonic = 0; tonic < 12; tonic++) {
+    // The profile rotated so its first entry lines up with the tonic
+    const rotated = chroma.map((_, i) => chroma[(i + tonic) % 12]);
+    for (const [mode, profile] of [
+      ["major", MAJOR_PROFILE],
+      ["minor", MINOR_PROFILE],
+    ] as [KeyMode, number[]][]) {
+      const r = correlation(rotated, profile);
+      if (!best || r > best.confidence) {
+        best = { pitchClass: tonic, mode, confidence: r };
+      }
+    }
+  }
+  if (best) best.confidence = Math.round(best.confidence * 100) / 100;
+  return best;
+}
+
+/**
+ * Estimate tempo and key from the first two minutes of a file. Returns null
+ * when it can't be decoded, and throws when decoding may work later.
+ */
+export async function analyzeMusic(
+  filePath: string
+): Promise<MusicAnalysis | null> {
+  const decoded = await decodeMono(filePath, ANALYSIS_RATE, MAX_ANALYSIS_SEC);
+  if (!decoded) return null;
+  const { samples, sampleRate } = decoded;
+  const tempo = estimateTempo(samples, sampleRate);
+  return {
+    bpm: tempo.bpm,
+    bpmConfidence: Math.round(tempo.confidence * 100) / 100,
+    key: estimateKey(samples, sampleRate),
+  };
+}
+
+export function formatKey(key: MusicalKey | null | undefined): string {
+  if (!key) return "";
+  return `${PITCH_NAMES[key.pitchClass]} ${key.mode}`;
+}
+
+export function formatBpm(bpm: number | null | undefined): string {
+  return bpm ? `${Math.round(bpm)} BPM` : "";
+}
+
+const LETTERS: Record<string, number> = {
+  c: 0,
+  d: 2,
+  e: 4,
+  f: 5,
+  g: 7,
+  a: 9,
+  b: 11,
+};
+
+/**
+ * Parse a key name: "A minor", "Am", "F#", "Gbmaj", "c#m". A bare note is a
+ * major key.
+ */
+export function parseKey(
+  text: string
+): { pitchClass: number; mode: KeyMode } | null {
+  const m = text
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "")
+    .match(/^([a-g])(#|♯|b|♭)?(m|min|minor|maj|major)?$/);
+  if (!m) return null;
+  let pitchClass = LETTERS[m[1]];
+  if (m[2] === "#" || m[2] === "♯") pitchClass += 1;
+  if (m[2] === "b" || m[2] === "♭") pitchClass += 11;
+  const mode: KeyMode =
+    m[3] === "m" || m[3]?.startsWith("min") ? "minor" : "major";
+  return { pitchClass: pitchClass % 12, mode };
+}
@@ -0,0 +1,362 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawn } from "child_process";
+import { readAudioMetadata, readPcmLayout, PcmLayout } from "./audio-metadata";
+import { findExecutable } from "./system-utils";
+
+// Decoded audio is handed out as a stream of planar Float32 chunks so that long
+// files never have to be held in memory at once.
+
+export interface PcmStream {
+  sampleRate: number;
+  channels: number;
+  frames?: number; // total frame count, when known up front
+  chunks(): AsyncGenerator<Float32Array[]>;
+  close(): Promise<void>;
+}
+
+export interface PcmDecoder {
+  name: string;
+  // Decodes every format, so a file it rejects can't be decoded at all
+  anyFormat?: boolean;
+  canDecode(filePath: string): boolean;
+  open(filePath: string): Promise<PcmStream | null>;
+}
+
+const CHUNK_FRAMES = 32768;
+
+// --- Native WAV / AIFF -----------------------------------------------------
+
+function sampleReader(
+  layout: PcmLayout
+): ((buf: Buffer, offset: number) => number) | null {
+  const { bitDepth, encoding, bigEndian } = layout;
+  if (encoding === "float") {
+    if (bitDepth === 32) {
+      return bigEndian
+        ? (b, o) => b.readFloatBE(o)
+        : (b, o) => b.readFloatLE(o);
+    }
+    if (bitDepth === 64) {
+      return bigEndian
+        ? (b, o) => b.readDoubleBE(o)
+        : (b, o) => b.readDoubleLE(o);
+    }
+    return null;
+  }
+  switch (bitDepth) {
+    // 8-bit WAV is unsigned, 8-bit AIFF is signed
+    case 8:
+      return bigEndian
+        ? (b, o) => b.readInt8(o) / 128
+        : (b, o) => (b[o] - 128) / 128;
+    case 16:
+      return bigEndian
+        ? (b, o) => b.readInt16BE(o) / 32768
+        : (b, o) => b.readInt16LE(o) / 32768;
+    case 24:
+      return bigEndian
+        ? (b, o) => b.readIntBE(o, 3) / 8388608
+        : (b, o) => b.readIntLE(o, 3) / 8388608;
+    case 32:
+      return bigEndian
+        ? (b, o) => b.readInt32BE(o) / 2147483648
+        : (b, o) => b.readInt32LE(o) / 2147483648;
+    default:
+      return null;
+  }
+}
+
+async function openNative(
+  filePath: string,
+  onClose?: () => Promise<void>
+): Promise<PcmStream | null> {
+  const layout = await readPcmLayout(filePath);
+  if (!layout) return null;
+  const read = sampleReader(layout);
+  if (!read) return null;
+
+  const { channels, offset, length } = layout;
+  const bytesPerSample = layout.bitDepth / 8;
+  const frameBytes = bytesPerSample * channels;
+  const totalFrames = Math.floor(length / frameBytes);
+  const handle = await fs.promises.open(filePath, "r");
+
+  return {
+    sampleRate: layout.sampleRate,
+    channels,
+    frames: totalFrames,
+    async *chunks() {
+      const buf = Buffer.alloc(CHUNK_FRAMES * frameBytes);
+      let frame = 0;
+      while (frame < totalFrames) {
+        const want = Math.min(CHUNK_FRAMES, totalFrames - frame);
+        const { bytesRead } = await handle.read(
+          buf,
+          0,
+          want * frameBytes,
+          offset + frame * frameBytes
+        );
+        const got = Math.floor(bytesRead / frameBytes);
+        if (got === 0) break;
+        const planes: Float32Array[] = [];
+        for (let c = 0; c < channels; c++) planes.push(new Float32Array(got));
+        for (let i = 0; i < got; i++) {
+          const base = i * frameBytes;
+          for (let c = 0; c < channels; c++) {
+            planes[c][i] = read(buf, base + c * bytesPerSample);
+          }
+        }
+        frame += got;
+        yield planes;
+      }
+    },
+    async close() {
+      try {
+        await handle.close();
+      } catch {
+        // ignore
+      }
+      if (onClose) await onClose();
+    },
+  };
+}
+
+const nativeDecoder: PcmDecoder = {
+  name: "native",
+  canDecode: (filePath) =>
+    [".wav", ".aif", ".aiff", ".aifc"].includes(
+      path.extname(filePath).toLowerCase()
+    ),
+  open: (filePath) => openNative(filePath),
+};
+
+// --- External tools ----------------------------------------------------------
+
+// Enough of ffmpeg's error output to say why it failed
+const STDERR_LIMIT = 4096;
+
+/**
+ * ffmpeg decodes everything and can stream raw float samples over stdout.
+ * Whether it read the whole file only shows once it exits, so the stream
+ * throws at its end when ffmpeg failed rather than ending early.
+ */
+const ffmpegDecoder: PcmDecoder = {
+  name: "ffmpeg",
+  anyFormat: true,
+  canDecode: () => findExecutable(["ffmpeg"]) !== null,
+  async open(filePath) {
+    const ffmpeg = findExecutable(["ffmpeg"]);
+    if (!ffmpeg) return null;
+    const metadata = await readAudioMetadata(filePath);
+    const channels = metadata?.channels || 2;
+    const sampleRate = metadata?.sampleRate || 48000;
+    const proc = spawn(
+      ffmpeg,
+      [
+        "-v",
+        "error",
+        "-i",
+        filePath,
+        "-f",
+        "f32le",
+        "-ac",
+        String(channels),
+        "-ar",
+        String(sampleRate),
+        "-",
+      ],
+      { stdio: ["ignore", "pipe", "pipe"] }
+    );
+    let stderr = "";
+    proc.stderr?.on("data", (data: Buffer) => {
+      if (stderr.length < STDERR_LIMIT) stderr += data.toString("utf8");
+    });
+    const exited = new Promise<number | null>((resolve, reject) => {
+      proc.on("close", (code) => resolve(code));
+      proc.on("error", reject);
+    });
+    // Awaited by chunks(); don't report it as unhandled when nobody reads
+    exited.catch(() => undefined);
+    const frameBytes = 4 * channels;
+    return {
+      sampleRate,
+      channels,
+      frames: metadata?.durationSec
+        ? Math.round(metadata.durationSec * sampleRate)
+        : undefined,
+      async *chunks() {
+        let leftover = Buffer.alloc(0);
+        for await (const data of proc.stdout as AsyncIterable<Buffer>) {
+          const buf = leftover.length ? Buffer.concat([leftover, data]) : data;
+          const frames = Math.floor(buf.length / frameBytes);
+          leftover = buf.subarray(frames * frameBytes);
+          if (frames === 0) continue;
+          const planes: Float32Array[] = [];
+          for (let c = 0; c < channels; c++) {
+            planes.push(new Float32Array(frames));
+          }
+          for (let i = 0; i < frames; i++) {
+            for (let c = 0; c < channels; c++) {
+              planes[c][i] = buf.readFloatLE(i * frameBytes + c * 4);
+            }
+          }
+          yield planes;
+        }
+        const code = await exited;
+        if (code !== 0) {
+          const reason = stderr.trim().split("\n").pop();
+          throw new Error(
+            `ffmpeg couldn't decode ${path.basename(filePath)} (exit ${code})${
+              reason ? `: ${reason}` : ""
+            }`
+          );
+        }
+      },
+      async close() {
+        if (proc.exitCode === null) proc.kill("SIGKILL");
+      },
+    };
+  },
+};
+
+/**
+ * afconvert ships with macOS; it cannot write to stdout, so decode to a
+ * temporary float WAV and read that natively.
+ */
+const afconvertDecoder: PcmDecoder = {
+  name: "afconvert",
+  anyFormat: true,
+  canDecode: () => findExecutable(["afconvert"]) !== null,
+  async open(filePath) {
+    const afconvert = findExecutable(["afconvert"]);
+    if (!afconvert) return null;
+    const tmpDir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), "audio-files-pcm-")
+    );
+    const tmpFile = path.join(tmpDir, "decoded.wav");
+    const cleanup = async () => {
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+    };
+    const ok = await new Promise<boolean>((resolve) => {
+      const proc = spawn(
+        afconvert,
+        ["-f", "WAVE", "-d", "LEF32", filePath, tmpFile],
+        { stdio: "ignore" }
+      );
+      proc.on("close", (code) => resolve(code === 0));
+      proc.on("error", () => resolve(false));
+    });
+    if (!ok) {
+      await cleanup();
+      return null;
+    }
+    const stream = await openNative(tmpFile, cleanup);
+    if (!stream) await cleanup();
+    return stream;
+  },
+};
+
+const decoders: PcmDecoder[] = [nativeDecoder, ffmpegDecoder, afconvertDecoder];
+
+/**
+ * Add a decoder. Decoders are tried in order; prepend to take precedence over
+ * the built-in ones.
+ */
+export function registerDecoder(
+  decoder: PcmDecoder,
+  options?: { prepend?: boolean }
+) {
+  if (options?.prepend) decoders.unshift(decoder);
+  else decoders.push(decoder);
+}
+
+/**
+ * Open a PCM stream for the file using the first decoder that can handle it.
+ * Returns null only when the file can't be decoded for good: a decoder that
+ * reads every format rejected it. Throws when it may work later, because the
+ * file can't be read right now, a decoder failed or none for the format is
+ * installed.
+ */
+export async function openPcmOrThrow(
+  filePath: string
+): Promise<PcmStream | null> {
+  await fs.promises.access(filePath, fs.constants.R_OK);
+  let rejected = false;
+  let failure: unknown = null;
+  for (const decoder of decoders) {
+    if (!decoder.canDecode(filePath)) continue;
+    try {
+      const stream = await decoder.open(filePath);
+      if (stream) return stream;
+      if (decoder.anyFormat) rejected = true;
+    } catch (e) {
+      console.error(`Decoder ${decoder.name} failed`, filePath, e);
+      failure = e;
+    }
+  }
+  if (rejected) return null;
+  throw (
+    failure ??
+    new Error(`No installed decoder reads ${path.basename(filePath)}`)
+  );
+}
+
+/**
+ * Open a PCM stream for the file using the first decoder that can handle it,
+ * or null when none can right now.
+ */
+export async function openPcm(filePath: string): Promise<PcmStream | null> {
+  return openPcmOrThrow(filePath).catch(() => null);
+}
+
+/**
+ * Decode up to `maxSec` of a file as a mono signal at roughly `targetRate`:
+ * channels are mixed and blocks of samples averaged down. Meant for analysis,
+ * not playback. Returns null when the file can't be decoded, and throws when
+ * that may change (see openPcmOrThrow).
+ */
+export async function decodeMono(
+  filePath: string,
+  targetRate: number,
+  maxSec: number
+): Promise<{ samples: Float32Array; sampleRate: number } | null> {
+  const stream = await openPcmOrThrow(filePath);
+  if (!stream) return null;
+  try {
+    const factor = Math.max(1, Math.round(stream.sampleRate / targetRate));
+    const maxFrames = Math.floor(stream.sampleRate * maxSec);
+    const parts: Float32Array[] = [];
+    let length = 0;
+    let sum = 0;
+    let count = 0;
+    let position = 0;
+    for await (const planes of stream.chunks()) {
+      const frames = Math.min(planes[0].length, maxFrames - position);
+      const part = new Float32Array(Math.ceil(frames / factor) + 1);
+      let n = 0;
+      for (let i = 0; i < frames; i++) {
+        for (let c = 0; c < planes.length; c++) sum += planes[c][i];
+        if (++count === factor) {
+          part[n++] = sum / (factor * planes.length);
+          sum = 0;
+          count = 0;
+        }
+      }
+      parts.push(part.subarray(0, n));
+      length += n;
+      position += frames;
+      if (position >= maxFrames) break;
+    }
+    const samples = new Float32Array(length);
+    let offset = 0;
+    for (const part of parts) {
+      samples.set(part, offset);
+      offset += part.length;
+    }
+    return { samples, sampleRate: stream.sampleRate / factor };
+  } finally {
+    await stream.close();
+  }
+}
@@ -0,0 +1,337 @@
+import fs from "fs";
+import path from "path";
+import { ChildProcess, execFile, spawn } from "child_process";
+import { environment } from "@raycast/api";
+import { findExecutable } from "./system-utils";
+
+// Audio previews are played by an external command-line player. Which one is
+// available depends on the machine: afplay ships with macOS, the Linux review
+// boxes have PipeWire or PulseAudio, and ffplay/mpv work anywhere they are
+// installed. Only processes started here are tracked and stopped.
+
+export type PlayerBackendId =
+  | "afplay"
+  | "ffplay"
+  | "mpv"
+  | "pw-play"
+  | "paplay";
+
+export interface PlayOptions {
+  offsetSec?: number; // start position
+  volume?: number; // 0..1, up to the backend's maxVolume to boost
+  loop?: boolean;
+}
+
+export interface PlayerBackend {
+  id: PlayerBackendId;
+  name: string;
+  executableNames: string[];
+  // Extensions the player can decode; undefined means anything
+  extensions?: string[];
+  canSeek: boolean; // honours PlayOptions.offsetSec
+  loopsNatively: boolean; // otherwise looping restarts the process
+  maxVolume: number; // above 1 the player amplifies
+  args(filePath: string, options: PlayOptions): string[];
+}
+
+export interface Playback {
+  filePath: string;
+  backend: PlayerBackend;
+  stop(): void;
+}
+
+// pw-play and paplay decode through libsndfile
+const SNDFILE_EXTENSIONS = [".wav", ".aiff", ".aif", ".flac", ".ogg", ".caf"];
+
+// Boosting is capped at +6 dB; louder gain is left to the player's limits
+const MAX_BOOST = 2;
+
+function volumeOf(options: PlayOptions, max = 1): number {
+  return Math.min(max, Math.max(0, options.volume ?? 1));
+}
+
+const BACKENDS: PlayerBackend[] = [
+  {
+    id: "afplay",
+    name: "afplay",
+    executableNames: ["/usr/bin/afplay", "afplay"],
+    canSeek: false,
+    loopsNatively: false,
+    maxVolume: MAX_BOOST,
+    args: (filePath, options) => [
+      "-v",
+      String(volumeOf(options, MAX_BOOST)),
+      filePath,
+    ],
+  },
+  {
+    id: "pw-play",
+    name: "PipeWire (pw-play)",
+    executableNames: ["pw-play"],
+    extensions: SNDFILE_EXTENSIONS,
+    canSeek: false,
+    loopsNatively: false,
+    maxVolume: MAX_BOOST,
+    args: (filePath, options) => [
+      `--volume=${volumeOf(options, MAX_BOOST)}`,
+      filePath,
+    ],
+  },
+  {
+    id: "paplay",
+    name: "PulseAudio (paplay)",
+    executableNames: ["paplay"],
+    extensions: SNDFILE_EXTENSIONS,
+    canSeek: false,
+    loopsNatively: false,
+    maxVolume: MAX_BOOST,
+    args: (filePath, options) => [
+      `--volume=${Math.round(volumeOf(options, MAX_BOOST) * 65536)}`,
+      filePath,
+    ],
+  },
+  {
+    id: "mpv",
+    name: "mpv",
+    executableNames: ["mpv"],
+    canSeek: true,
+    loopsNatively: true,
+    maxVolume: MAX_BOOST,
+    args: (filePath, options) => [
+      "--no-video",
+      "--no-terminal",
+      "--really-quiet",
+      `--volume-max=${MAX_BOOST * 100}`,
+      `--volume=${Math.round(volumeOf(options, MAX_BOOST) * 100)}`,
+      ...(options.offsetSec ? [`--start=${options.offsetSec}`] : []),
+      ...(options.loop ? ["--loop-file=inf"] : []),
+      filePath,
+    ],
+  },
+  {
+    id: "ffplay",
+    name: "ffplay",
+    executableNames: ["ffplay"],
+    canSeek: true,
+    loopsNatively: true,
+    maxVolume: 1, // -volume stops at 100
+    args: (filePath, options) => [
+      "-nodisp",
+      "-autoexit",
+      "-loglevel",
+      "quiet",
+      "-volume",
+      String(Math.round(volumeOf(options) * 100)),
+      ...(options.offsetSec ? ["-ss", String(options.offsetSec)] : []),
+      ...(options.loop ? ["-loop", "0"] : []),
+      filePath,
+    ],
+  },
+];
+
+// Tried in this order when the preference is "auto"
+const AUTO_ORDER: Record<string, PlayerBackendId[]> = {
+  darwin: ["afplay", "ffplay", "mpv"],
+  linux: ["pw-play", "paplay", "mpv", "ffplay"],
+};
+const DEFAULT_AUTO_ORDER: PlayerBackendId[] = ["ffplay", "mpv"];
+
+export function backendExecutable(backend: PlayerBackend): string | null {
+  return findExecutable(backend.executableNames);
+}
+
+function canPlay(backend: PlayerBackend, filePath: string): boolean {
+  if (!backend.extensions) return true;
+  return backend.extensions.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * The installed backends, in the order auto-detection tries them.
+ */
+export function availableBackends(): PlayerBackend[] {
+  const order = AUTO_ORDER[process.platform] ?? DEFAULT_AUTO_ORDER;
+  const ordered = [
+    ...order.map((id) => BACKENDS.find((b) => b.id === id) as PlayerBackend),
+    ...BACKENDS.filter((b) => !order.includes(b.id)),
+  ];
+  return ordered.filter((b) => backendExecutable(b) !== null);
+}
+
+/**
+ * Pick the backend for a file: the preferred one if it is installed and can
+ * decode the format, otherwise the first installed one that can. When
+ * `needsSeek` is set, backends that can start from an offset win over ones
+ * that can't.
+ */
+export function selectBackend(
+  filePath: string,
+  preferred?: string,
+  needsSeek = false
+): PlayerBackend | null {
+  const installed = availableBackends().filter((b) => canPlay(b, filePath));
+  const candidates = needsSeek
+    ? [...installed.filter((b) => b.canSeek), ...installed]
+    : installed;
+  return candidates.find((b) => b.id === preferred) ?? candidates[0] ?? null;
+}
+
+// Shortest run that still counts as having played the file when looping
+const MIN_LOOP_MS = 200;
+
+// --- Process tracking --------------------------------------------------------
+
+// Players started by this command instance
+const running = new Set<ChildProcess>();
+
+// Players outlive the command if Raycast unloads it mid-preview, so their pids
+// are also written to disk and stopped by the next "Stop All Audio"
+function pidFilePath(): string {
+  return path.join(environment.supportPath, "player-pids.json");
+}
+
+interface TrackedPid {
+  pid: number;
+  command: string; // executable basename, checked before killing
+}
+
+function readTrackedPids(): TrackedPid[] {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(pidFilePath(), "utf8"));
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (p) => typeof p?.pid === "number" && typeof p?.command === "string"
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeTrackedPids(pids: TrackedPid[]) {
+  try {
+    fs.mkdirSync(environment.supportPath, { recursive: true });
+    fs.writeFileSync(pidFilePath(), JSON.stringify(pids), "utf8");
+  } catch (e) {
+    console.error("Failed to record player pids", e);
+  }
+}
+
+function untrack(pid: number | undefined) {
+  if (pid === undefined) return;
+  const pids = readTrackedPids();
+  const rest = pids.filter((p) => p.pid !== pid);
+  if (rest.length !== pids.length) writeTrackedPids(rest);
+}
+
+/**
+ * Start playing `filePath` with `backend`. `onExit` runs once the player ends,
+ * whether it finished, was stopped or failed to start. Backends that can't
+ * loop by themselves are restarted each time the file ends.
+ */
+export function startPlayback(
+  backend: PlayerBackend,
+  filePath: string,
+  options: PlayOptions = {},
+  onExit?: () => void
+): Playback | null {
+  const executable = backendExecutable(backend);
+  if (!executable) return null;
+  const args = backend.args(filePath, options);
+  let child: ChildProcess;
+  let stopped = false;
+  let exited = false;
+
+  const launch = () => {
+    const started = spawn(executable, args, { stdio: "ignore" });
+    const startedAt = Date.now();
+    child = started;
+    running.add(started);
+    if (started.pid !== undefined) {
+      writeTrackedPids([
+        ...readTrackedPids(),
+        { pid: started.pid, command: path.basename(executable) },
+      ]);
+    }
+    started.on("exit", (code) => {
+      running.delete(started);
+      untrack(started.pid);
+      // A player that ends instantly isn't playing anything; don't spin
+      const played = Date.now() - startedAt >= MIN_LOOP_MS;
+      if (
+        options.loop &&
+        !backend.loopsNatively &&
+        !stopped &&
+        code === 0 &&
+        played
+      ) {
+        launch();
+      } else {
+        finish();
+      }
+    });
+    started.on("error", (e) => {
+      console.error(`Failed to start ${backend.name}`, e);
+      running.delete(started);
+      finish();
+    });
+  };
+  const finish = () => {
+    if (exited) return;
+    exited = true;
+    onExit?.();
+  };
+
+  launch();
+  return {
+    filePath,
+    backend,
+    stop: () => {
+      stopped = true;
+      try {
+        child.kill("SIGTERM");
+      } catch {
+        // already gone
+      }
+    },
+  };
+}
+
+// Name of the process with `pid`, or null if it is not running
+function processCommand(pid: number): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile("ps", ["-p", String(pid), "-o", "comm="], (error, stdout) => {
+      resolve(error ? null : path.basename(stdout.trim()));
+    });
+  });
+}
+
+/**
+ * Stop every player this extension started, including ones left over from an
+ * earlier run. Leftover pids are only killed if they still run the same
+ * player, so a pid reused by an unrelated process is left alone. Returns how
+ * many were stopped.
+ */
+export async function stopAllPlayback(): Promise<number> {
+  let stopped = 0;
+  const ownPids = new Set<number>();
+  for (const child of running) {
+    if (child.pid !== undefined) ownPids.add(child.pid);
+    try {
+      if (child.kill("SIGTERM")) stopped++;
+    } catch {
+      // already gone
+    }
+  }
+  for (const tracked of readTrackedPids()) {
+    if (ownPids.has(tracked.pid)) continue;
+    if ((await processCommand(tracked.pid)) !== tracked.command) continue;
+    try {
+      process.kill(tracked.pid, "SIGTERM");
+      stopped++;
+    } catch {
+      // exited in the meantime
+    }
+  }
+  writeTrackedPids([]);
+  return stopped;
+}
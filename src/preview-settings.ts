@@ -0,0 +1,157 @@
+import { NO_TREATMENT, Treatment, clampRate } from "./treatment";
+
+// How previews play: where they start, how long autoplay lets them run, how
+// loud they are, whether they loop, the loudness they are matched to and the
+// speed/reverse treatment. Persisted in LocalStorage as JSON.
+
+export type PreviewOffset =
+  | { kind: "start" }
+  | { kind: "seconds"; value: number }
+  | { kind: "percent"; value: number } // 0..100 of the file's duration
+  | { kind: "skipSilence" };
+
+export interface PreviewSettings extends Treatment {
+  offset: PreviewOffset;
+  lengthSec: number; // autoplay auto-stop, 0 plays the whole file
+  volume: number; // 0..1
+  loop: boolean;
+  loudnessTarget: number | null; // LUFS previews are matched to, null = off
+}
+
+export const PREVIEW_SETTINGS_KEY = "audioFilesPreviewSettings";
+
+export const DEFAULT_PREVIEW_SETTINGS: PreviewSettings = {
+  offset: { kind: "start" },
+  lengthSec: 8,
+  volume: 1,
+  loop: false,
+  loudnessTarget: null,
+  ...NO_TREATMENT,
+};
+
+export const PREVIEW_LENGTHS = [3, 5, 8, 15, 30, 60, 0];
+export const PREVIEW_VOLUMES = [0.1, 0.25, 0.5, 0.75, 1];
+export const PREVIEW_OFFSET_PERCENTS = [10, 25, 30, 50, 75];
+export const LOUDNESS_TARGETS = [-14, -16, -18, -20, -23];
+
+const NUDGE_SECONDS = 5;
+const NUDGE_PERCENT = 10;
+const NUDGE_VOLUME = 0.1;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function parseOffset(value: unknown): PreviewOffset {
+  const v = value as PreviewOffset;
+  if (v?.kind === "skipSilence") return { kind: "skipSilence" };
+  if (
+    (v?.kind === "seconds" || v?.kind === "percent") &&
+    typeof v.value === "number" &&
+    v.value > 0
+  ) {
+    return v.kind === "percent"
+      ? { kind: "percent", value: clamp(v.value, 0, 99) }
+      : { kind: "seconds", value: v.value };
+  }
+  return { kind: "start" };
+}
+
+/**
+ * Read stored settings, falling back to the defaults field by field.
+ */
+export function parsePreviewSettings(stored: unknown): PreviewSettings {
+  let raw: Partial<PreviewSettings> = {};
+  try {
+    if (typeof stored === "string") raw = JSON.parse(stored) ?? {};
+  } catch {
+    // corrupt, use defaults
+  }
+  return {
+    offset: parseOffset(raw.offset),
+    lengthSec:
+      typeof raw.lengthSec === "number" && raw.lengthSec >= 0
+        ? raw.lengthSec
+        : DEFAULT_PREVIEW_SETTINGS.lengthSec,
+    volume:
+      typeof raw.volume === "number"
+        ? clamp(raw.volume, 0, 1)
+        : DEFAULT_PREVIEW_SETTINGS.volume,
+    loop: typeof raw.loop === "boolean" ? raw.loop : false,
+    loudnessTarget:
+      raw.loudnessTarget === null
+        ? null
+        : typeof raw.loudnessTarget === "number"
+        ? clamp(raw.loudnessTarget, -40, 0)
+        : DEFAULT_PREVIEW_SETTINGS.loudnessTarget,
+    rate: typeof raw.rate === "number" ? clampRate(raw.rate) : 1,
+    preservePitch:
+      typeof raw.preservePitch === "boolean" ? raw.preservePitch : false,
+    reverse: typeof raw.reverse === "boolean" ? raw.reverse : false,
+  };
+}
+
+/**
+ * Move the offset forward (`direction` 1) or back (-1): by 5 seconds, or by
+ * 10% when the offset is a percentage.
+ */
+export function nudgeOffset(
+  offset: PreviewOffset,
+  direction: 1 | -1
+): PreviewOffset {
+  if (offset.kind === "percent") {
+    const value = clamp(offset.value + direction * NUDGE_PERCENT, 0, 90);
+    return value > 0 ? { kind: "percent", value } : { kind: "start" };
+  }
+  const current = offset.kind === "seconds" ? offset.value : 0;
+  const value = Math.max(0, current + direction * NUDGE_SECONDS);
+  return value > 0 ? { kind: "seconds", value } : { kind: "start" };
+}
+
+export function nudgeVolume(volume: number, direction: 1 | -1): number {
+  return Math.round(clamp(volume + direction * NUDGE_VOLUME, 0, 1) * 100) / 100;
+}
+
+/**
+ * Seconds into the file where a preview starts. `leadingSilenceSec` is only
+ * consulted for "skip silence".
+ */
+export function resolveOffsetSec(
+  offset: PreviewOffset,
+  durationSec?: number,
+  leadingSilenceSec?: number
+): number {
+  let sec = 0;
+  if (offset.kind === "seconds") sec = offset.value;
+  else if (offset.kind === "percent" && durationSec) {
+    sec = (durationSec * offset.value) / 100;
+  } else if (offset.kind === "skipSilence") sec = leadingSilenceSec ?? 0;
+  // Never seek past the end, or the preview would be silent
+  if (durationSec && sec >= durationSec) sec = Math.max(0, durationSec - 1);
+  return Math.round(sec * 1000) / 1000;
+}
+
+export function describeOffset(offset: PreviewOffset): string {
+  switch (offset.kind) {
+    case "seconds":
+      return `${offset.value}s`;
+    case "percent":
+      return `${offset.value}%`;
+    case "skipSilence":
+      return "Skip Silence";
+    default:
+      return "Start";
+  }
+}
+
+export function describeLength(lengthSec: number): string {
+  return lengthSec > 0 ? `${lengthSec}s` : "Full";
+}
+
+export function describeVolume(volume: number): string {
+  return `${Math.round(volume * 100)}%`;
+}
+
+export function describeLoudnessTarget(target: number | null): string {
+  return target === null ? "Off" : `${target} LUFS`;
+}
@@ -0,0 +1,386 @@
+import path from "path";
+import { AudioItem } from "./audio-item";
+import { normalizeTag } from "./tags-store";
+import { parseKey } from "./music-analysis";
+
+// Search bar query language. Free text is matched fuzzily against file names
+// and folder paths; "key:value" tokens filter on file properties:
+//
+//   tag:impact         file has the tag (tag:a,b matches either)
+//   dur:<2s            duration, with <, <=, >, >=, =, or a range 1s..3s
+//   ext:wav            extension (ext:wav,aif matches either)
+//   cat:Whooshes       folder path contains the text
+//   sr:48k             sample rate, same comparisons as dur
+//   fav:yes            favorites only (fav:no for the rest)
+//   lufs:>-20          integrated loudness, same comparisons as dur
+//   peak:>-1           true peak in dBTP
+//   rms:<-30           RMS level in dBFS
+//   bpm:120-128        tempo, same comparisons as dur (a-b is a range too)
+//   key:Am             musical key (key:C,G matches either; C means C major)
+//
+// Any token can be negated with a leading "-", e.g. "-riser" or "-tag:ui".
+// Quotes group words: cat:"Sound FX" or "door slam".
+
+export type Comparison = "<" | "<=" | ">" | ">=" | "=" | "range";
+
+export interface SearchFilter {
+  key: string;
+  value: string;
+  negate: boolean;
+}
+
+export interface SearchTerm {
+  text: string;
+  negate: boolean;
+}
+
+export interface SearchQuery {
+  terms: SearchTerm[];
+  filters: SearchFilter[];
+}
+
+export interface SearchContext {
+  tags: Record<string, string[]>;
+  isFavorite: (filePath: string) => boolean;
+}
+
+type FilterMatcher = (
+  item: AudioItem,
+  value: string,
+  context: SearchContext
+) => boolean;
+
+/**
+ * Split on whitespace, keeping quoted sections together and stripping the
+ * quotes themselves.
+ */
+function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const ch of input) {
+    if (ch === '"') {
+      quoted = !quoted;
+    } else if (!quoted && /\s/.test(ch)) {
+      if (current) tokens.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { terms: [], filters: [] };
+  for (const raw of tokenize(input)) {
+    const negate = raw.length > 1 && raw.startsWith("-");
+    const token = negate ? raw.slice(1) : raw;
+    const colon = token.indexOf(":");
+    if (colon > 0) {
+      const key = token.slice(0, colon).toLowerCase();
+      const value = token.slice(colon + 1);
+      if (isFilterKey(key) && value) {
+        query.filters.push({ key, value, negate });
+        continue;
+      }
+    }
+    query.terms.push({ text: token.toLowerCase(), negate });
+  }
+  return query;
+}
+
+export function isEmptyQuery(query: SearchQuery): boolean {
+  return query.terms.length === 0 && query.filters.length === 0;
+}
+
+interface NumericTest {
+  comparison: Comparison;
+  value: number;
+  upper?: number;
+}
+
+/**
+ * Parse "<2s", ">=44.1k", "1s..3s" or a bare value with the given unit parser.
+ */
+function parseNumericTest(
+  input: string,
+  parseValue: (text: string) => number | null
+): NumericTest | null {
+  const range = input.split("..");
+  if (range.length === 2) {
+    const lo = parseValue(range[0]);
+    const hi = parseValue(range[1]);
+    if (lo === null || hi === null) return null;
+    return {
+      comparison: "range",
+      value: Math.min(lo, hi),
+      upper: Math.max(lo, hi),
+    };
+  }
+  const m = input.match(/^(<=|>=|<|>|=)?(.+)$/);
+  if (!m) return null;
+  const value = parseValue(m[2]);
+  if (value === null) return null;
+  return { comparison: (m[1] as Comparison) || "=", value };
+}
+
+function compare(
+  actual: number,
+  test: NumericTest,
+  tolerance: number
+): boolean {
+  switch (test.comparison) {
+    case "<":
+      return actual < test.value;
+    case "<=":
+      return actual <= test.value;
+    case ">":
+      return actual > test.value;
+    case ">=":
+      return actual >= test.value;
+    case "range":
+      return actual >= test.value && actual <= (test.upper ?? test.value);
+    default:
+      return Math.abs(actual - test.value) <= tolerance;
+  }
+}
+
+// "1.5", "1.5s", "800ms", "2m", "1:30"
+function parseDuration(text: string): number | null {
+  const t = text.trim().toLowerCase();
+  const clock = t.match(/^(\d+):(\d{1,2}(?:\.\d+)?)$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+  const m = t.match(/^(\d+(?:\.\d+)?|\.\d+)(ms|s|sec|m|min)?$/);
+  if (!m) return null;
+  const n = Number(m[1]);
+  if (m[2] === "ms") return n / 1000;
+  if (m[2] === "m" || m[2] === "min") return n * 60;
+  return n;
+}
+
+// "48k", "44.1k", "48000", "96khz"
+function parseSampleRate(text: string): number | null {
+  const m = text
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+(?:\.\d+)?)(k|khz|hz)?$/);
+  if (!m) return null;
+  const n = Number(m[1]);
+  return m[2] === "k" || m[2] === "khz" || (!m[2] && n < 1000) ? n * 1000 : n;
+}
+
+// "-23", "-23lufs", "-1db", "-1dbtp"
+function parseLevel(text: string): number | null {
+  const m = text
+    .trim()
+    .toLowerCase()
+    .match(/^(-?\d+(?:\.\d+)?)(lufs|lu|db|dbtp|dbfs)?$/);
+  return m ? Number(m[1]) : null;
+}
+
+function levelFilter(
+  read: (item: AudioItem) => number | null | undefined
+): FilterMatcher {
+  return (item, value) => {
+    const level = read(item);
+    const test = parseNumericTest(value, parseLevel);
+    if (level === null || level === undefined || !test) return false;
+    return compare(level, test, 1);
+  };
+}
+
+// "124", "124bpm"
+function parseBpm(text: string): number | null {
+  const m = text
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+(?:\.\d+)?)(bpm)?$/);
+  return m ? Number(m[1]) : null;
+}
+
+function listValues(value: string): string[] {
+  return value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+// Own keys only: `in` would also accept "constructor", "__proto__" and the like
+function isFilterKey(key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(FILTERS, key);
+}
+
+const FILTERS: Record<string, FilterMatcher> = {
+  tag: (item, value, context) => {
+    const own = context.tags[item.path] ?? [];
+    return listValues(value).some((t) => own.includes(normalizeTag(t)));
+  },
+  dur: (item, value) => {
+    const duration = item.metadata?.durationSec;
+    const test = parseNumericTest(value, parseDuration);
+    if (duration === undefined || !test) return false;
+    return compare(duration, test, Math.max(0.5, test.value * 0.05));
+  },
+  ext: (item, value) => {
+    const ext = path.extname(item.name).slice(1).toLowerCase();
+    return listValues(value).some(
+      (v) => v.toLowerCase().replace(/^\./, "") === ext
+    );
+  },
+  cat: (item, value) => {
+    const category = item.category.split(path.sep).join("/").toLowerCase();
+    return listValues(value).some((v) => category.includes(v.toLowerCase()));
+  },
+  sr: (item, value) => {
+    const rate = item.metadata?.sampleRate;
+    const test = parseNumericTest(value, parseSampleRate);
+    if (!rate || !test) return false;
+    return compare(rate, test, 50);
+  },
+  fav: (item, value, context) => {
+    const wanted = !/^(no|n|false|0|off)$/i.test(value.trim());
+    return context.isFavorite(item.path) === wanted;
+  },
+  lufs: levelFilter((item) => item.analysis?.loudness?.integratedLufs),
+  peak: levelFilter((item) => item.analysis?.loudness?.truePeakDb),
+  rms: levelFilter((item) => item.analysis?.loudness?.rmsDb),
+  bpm: (item, value) => {
+    const bpm = item.analysis?.music?.bpm;
+    const test = parseNumericTest(
+      value.replace(/^([\d.]+)-([\d.]+)$/, "$1..$2"),
+      parseBpm
+    );
+    if (!bpm || !test) return false;
+    return compare(bpm, test, 1.5);
+  },
+  key: (item, value) => {
+    const key = item.analysis?.music?.key;
+    if (!key) return false;
+    return listValues(value).some((v) => {
+      const wanted = parseKey(v);
+      return wanted?.pitchClass === key.pitchClass && wanted.mode === key.mode;
+    });
+  },
+};
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// Optimal string alignment distance, capped: we only care about 0, 1 or "more"
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a[i + 1] === b[j] && a[i] === b[j + 1] && a.length === b.length) {
+      i += 2; // transposition
+      j += 2;
+    } else if (a.length > b.length) {
+      i++;
+    } else if (b.length > a.length) {
+      j++;
+    } else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+// Characters of `needle` appear in order in `haystack`; tighter spans score higher
+function subsequenceScore(needle: string, haystack: string): number {
+  let pos = -1;
+  let first = -1;
+  for (const ch of needle) {
+    pos = haystack.indexOf(ch, pos + 1);
+    if (pos === -1) return 0;
+    if (first === -1) first = pos;
+  }
+  const span = pos - first + 1;
+  return needle.length / span;
+}
+
+/**
+ * How well one query term matches a piece of text, 0 for no match.
+ */
+function termScore(term: string, text: string, textWords: string[]): number {
+  let best = 0;
+  for (const w of textWords) {
+    if (w === term) return 10;
+    if (w.startsWith(term)) best = Math.max(best, 7 + term.length / w.length);
+    else if (w.includes(term)) best = Math.max(best, 5);
+    else if (term.length >= 4 && withinOneEdit(term, w))
+      best = Math.max(best, 4);
+  }
+  if (best > 0) return best;
+  if (text.includes(term)) return 5;
+  if (term.length >= 3) {
+    const s = subsequenceScore(term, text.replace(/[^a-z0-9]/g, ""));
+    if (s >= 0.5) return 2 * s;
+  }
+  return 0;
+}
+
+/**
+ * Relevance of an item for the free text terms, or null when it is excluded.
+ * Every positive term has to match the name or the folder path; name matches
+ * weigh more.
+ */
+function scoreItem(item: AudioItem, terms: SearchTerm[]): number | null {
+  const name = item.name.toLowerCase();
+  const folder = item.category.split(path.sep).join("/").toLowerCase();
+  const nameWords = words(path.parse(item.name).name);
+  const folderWords = words(folder);
+  let score = 0;
+  for (const term of terms) {
+    if (term.negate) {
+      if (name.includes(term.text) || folder.includes(term.text)) return null;
+      continue;
+    }
+    const inName = termScore(term.text, name, nameWords);
+    const inFolder = termScore(term.text, folder, folderWords) * 0.6;
+    const best = Math.max(inName, inFolder);
+    if (best === 0) return null;
+    score += best;
+  }
+  // Prefer shorter names when terms match equally well
+  return score - nameWords.length * 0.01;
+}
+
+/**
+ * Filter `items` with the query and, when it has free text, rank them by
+ * relevance. Without free text the incoming order is kept.
+ */
+export function applySearchQuery(
+  items: AudioItem[],
+  query: SearchQuery,
+  context: SearchContext
+): AudioItem[] {
+  if (isEmptyQuery(query)) return items;
+  const scored: { item: AudioItem; score: number; order: number }[] = [];
+  items.forEach((item, order) => {
+    for (const f of query.filters) {
+      if (!isFilterKey(f.key)) continue;
+      if (FILTERS[f.key](item, f.value, context) === f.negate) return;
+    }
+    const score = scoreItem(item, query.terms);
+    if (score !== null) scored.push({ item, score, order });
+  });
+  if (query.terms.some((t) => !t.negate)) {
+    scored.sort((a, b) => b.score - a.score || a.order - b.order);
+  }
+  return scored.map((s) => s.item);
+}
@@ -0,0 +1,42 @@
+import { openPcm } from "./pcm-decoder";
+
+// Leading silence detection, so previews can start where the sound begins.
+
+const THRESHOLD = Math.pow(10, -50 / 20); // -50 dBFS
+const MAX_SCAN_SEC = 60;
+const PRE_ROLL_SEC = 0.01; // keep the attack of the first transient
+
+/**
+ * Seconds of silence at the start of a file: where the first sample above
+ * -50 dBFS occurs on any channel, minus a few milliseconds. Files that stay
+ * silent for the whole scanned minute report 0. Returns null when the file
+ * can't be decoded.
+ */
+export async function measureLeadingSilence(
+  filePath: string
+): Promise<number | null> {
+  const stream = await openPcm(filePath);
+  if (!stream) return null;
+  try {
+    const maxFrames = stream.sampleRate * MAX_SCAN_SEC;
+    let position = 0;
+    for await (const planes of stream.chunks()) {
+      const frames = planes[0].length;
+      for (let i = 0; i < frames; i++) {
+        for (let c = 0; c < planes.length; c++) {
+          if (Math.abs(planes[c][i]) > THRESHOLD) {
+            return Math.max(
+              0,
+              (position + i) / stream.sampleRate - PRE_ROLL_SEC
+            );
+          }
+        }
+      }
+      position += frames;
+      if (position >= maxFrames) break;
+    }
+    return 0;
+  } finally {
+    await stream.close();
+  }
+}
@@ -0,0 +1,113 @@
+import { ActionPanel, Icon, List, Toast, showToast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { AudioItem } from "./audio-item";
+import { formatDuration } from "./audio-metadata";
+import { SimilarResult, rankBySimilarity, similarityPercent } from "./features";
+
+const RESULT_COUNT = 10;
+
+interface SimilarSoundsProps {
+  target: AudioItem;
+  items: AudioItem[];
+  // The target's features, computed now if the background pass hasn't yet
+  featuresFor: (item: AudioItem) => Promise<number[] | null>;
+  renderItemActions: (item: AudioItem) => JSX.Element;
+}
+
+/**
+ * The sounds closest to `target` by their feature vectors, best match first.
+ */
+export function SimilarSounds(props: SimilarSoundsProps) {
+  const { target, items, featuresFor, renderItemActions } = props;
+  const [results, setResults] = useState<SimilarResult<AudioItem>[] | null>(
+    null
+  );
+  const candidates = items.filter(
+    (it) => it.path !== target.path && it.analysis?.features
+  );
+  const pending = items.filter(
+    (it) => it.path !== target.path && it.analysis?.features === undefined
+  ).length;
+
+  useEffect(() => {
+    let cancelled = false;
+    featuresFor(target)
+      .then((features) => {
+        if (cancelled) return;
+        if (!features) {
+          setResults([]);
+          showToast({
+            style: Toast.Style.Failure,
+            title: "Can't Analyse This File",
+            message: "Its format could not be decoded",
+          });
+          return;
+        }
+        setResults(
+          rankBySimilarity(
+            features,
+            candidates.map((item) => ({
+              item,
+              features: item.analysis?.features as number[],
+            })),
+            RESULT_COUNT
+          )
+        );
+      })
+      .catch((e) => {
+        console.error("Similarity search failed", e);
+        if (!cancelled) setResults([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <List
+      navigationTitle={`Similar to ${target.name}`}
+      isLoading={results === null}
+    >
+      {results !== null ? (
+        <List.EmptyView
+          icon={Icon.MagnifyingGlass}
+          title="No Similar Sounds"
+          description={
+            pending > 0
+              ? `${pending} files are still being analysed`
+              : undefined
+          }
+        />
+      ) : null}
+      <List.Section
+        title={`Closest to ${target.name}`}
+        subtitle={pending > 0 ? `${pending} files not analysed yet` : undefined}
+      >
+        {(results ?? []).map(({ item, distance }) => (
+          <List.Item
+            key={item.path}
+            id={item.path}
+            title={item.name}
+            subtitle={item.category}
+            icon={Icon.SpeakerOn}
+            accessories={[
+              ...(item.metadata?.durationSec
+                ? [
+                    {
+                      text: formatDuration(item.metadata.durationSec),
+                      icon: Icon.Clock,
+                    },
+                  ]
+                : []),
+              {
+                tag: `${similarityPercent(distance)}%`,
+                tooltip: "Similarity",
+              },
+            ]}
+            actions={<ActionPanel>{renderItemActions(item)}</ActionPanel>}
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,46 @@
+import fs from "fs";
+import path from "path";
+
+// Raycast starts extensions with a minimal PATH, so Homebrew and friends
+// have to be searched explicitly.
+const EXTRA_BIN_DIRS = [
+  "/opt/homebrew/bin",
+  "/usr/local/bin",
+  "/usr/bin",
+  "/bin",
+];
+
+const executableCache = new Map<string, string | null>();
+
+/**
+ * Find the first of the given command names that exists and is executable.
+ * Absolute paths are checked as-is. Results are cached per process.
+ */
+export function findExecutable(names: string[]): string | null {
+  const key = names.join("|");
+  if (executableCache.has(key)) return executableCache.get(key) ?? null;
+
+  const dirs = [
+    ...(process.env.PATH || "").split(path.delimiter).filter(Boolean),
+    ...EXTRA_BIN_DIRS,
+  ];
+  let found: string | null = null;
+  for (const name of names) {
+    const candidates = path.isAbsolute(name)
+      ? [name]
+      : dirs.map((d) => path.join(d, name));
+    found = candidates.find(isExecutable) ?? null;
+    if (found) break;
+  }
+  executableCache.set(key, found);
+  return found;
+}
+
+function isExecutable(filePath: string): boolean {
+  try {
+    fs.accessSync(filePath, fs.constants.X_OK);
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
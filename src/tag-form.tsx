@@ -0,0 +1,63 @@
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api";
+import path from "path";
+import { normalizeTag, parseTagInput } from "./tags-store";
+
+interface TagFormProps {
+  filePath: string;
+  tags: string[];
+  knownTags: string[];
+  onSave: (tags: string[]) => void;
+}
+
+interface TagFormValues {
+  tags: string[];
+  newTags: string;
+}
+
+/**
+ * Edit the tags of one audio file: pick from tags already used in the library
+ * or type new ones.
+ */
+export function TagForm({ filePath, tags, knownTags, onSave }: TagFormProps) {
+  const { pop } = useNavigation();
+  const options = [...new Set([...knownTags, ...tags])].sort();
+
+  function handleSubmit(values: TagFormValues) {
+    const next = [
+      ...new Set([
+        ...values.tags.map(normalizeTag),
+        ...parseTagInput(values.newTags),
+      ]),
+    ].filter(Boolean);
+    onSave(next);
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle={`Tags for ${path.basename(filePath)}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save Tags"
+            icon={Icon.Tag}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description title="File" text={path.basename(filePath)} />
+      <Form.TagPicker id="tags" title="Tags" defaultValue={tags}>
+        {options.map((t) => (
+          <Form.TagPicker.Item key={t} value={t} title={t} icon={Icon.Tag} />
+        ))}
+      </Form.TagPicker>
+      <Form.TextField
+        id="newTags"
+        title="New Tags"
+        placeholder="impact, ui, client-x"
+        info="Comma-separated. Tags are lowercased and spaces become hyphens."
+      />
+    </Form>
+  );
+}
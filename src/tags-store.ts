@@ -0,0 +1,126 @@
+import fs from "fs";
+import path from "path";
+import { LibraryRoot, findRootForPath } from "./library-roots";
+
+// User tags live in a visible sidecar in each library root, next to the
+// favorites file, so they sync through the same shared drive. Keys in the file
+// are paths relative to the root (with forward slashes) so the file works no
+// matter where a teammate mounts the library. Writers only change the entries
+// of the files they retagged, on top of the file as it is on disk, so tags
+// saved by a teammate in the meantime are kept.
+
+export const TAGS_FILE_NAME = "audio-files-tags.json";
+
+// In memory tags are keyed by absolute path
+export type TagMap = Record<string, string[]>;
+
+export function getTagsFilePath(root: LibraryRoot): string {
+  return path.join(root.path, TAGS_FILE_NAME);
+}
+
+/**
+ * Lowercase, trim and hyphenate a tag so "Client X" and "client-x" match.
+ * Colons are dropped because they delimit filter values.
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/:/g, "").replace(/\s+/g, "-");
+}
+
+export function parseTagInput(input: string): string[] {
+  return input.split(",").map(normalizeTag).filter(Boolean);
+}
+
+function toRelativeKey(root: LibraryRoot, filePath: string): string {
+  return path.relative(root.path, filePath).split(path.sep).join("/");
+}
+
+function fromRelativeKey(root: LibraryRoot, key: string): string {
+  return path.join(root.path, ...key.split("/"));
+}
+
+function readTagsFile(root: LibraryRoot): Record<string, string[]> | null {
+  try {
+    const fp = getTagsFilePath(root);
+    if (!fs.existsSync(fp)) return null;
+    const parsed = JSON.parse(fs.readFileSync(fp, "utf8"));
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return null;
+    }
+    const out: Record<string, string[]> = {};
+    for (const [key, value] of Object.entries(parsed)) {
+      if (!Array.isArray(value)) continue;
+      const tags = value
+        .filter((v): v is string => typeof v === "string")
+        .map(normalizeTag)
+        .filter(Boolean);
+      if (tags.length > 0) out[key] = [...new Set(tags)];
+    }
+    return out;
+  } catch (e) {
+    console.error("Failed to read tags file", root.path, e);
+    return null;
+  }
+}
+
+/**
+ * Read the tag sidecars of every root that is currently reachable.
+ */
+export function loadTags(roots: LibraryRoot[]): TagMap {
+  const tags: TagMap = {};
+  for (const root of roots) {
+    const fromFile = readTagsFile(root);
+    if (!fromFile) continue;
+    for (const [key, list] of Object.entries(fromFile)) {
+      tags[fromRelativeKey(root, key)] = list;
+    }
+  }
+  return tags;
+}
+
+/**
+ * Merge the tags of the `changed` files into their roots' sidecars as they are
+ * on disk right now and replace each file atomically. A changed file without
+ * tags is removed from its sidecar. Roots that are offline are left untouched.
+ */
+export function writeTags(
+  roots: LibraryRoot[],
+  tags: TagMap,
+  changed: string[]
+) {
+  for (const root of roots) {
+    const own = changed.filter(
+      (filePath) => findRootForPath(roots, filePath)?.id === root.id
+    );
+    if (own.length === 0) continue;
+    const fp = getTagsFilePath(root);
+    const tmp = `${fp}.${process.pid}.tmp`;
+    try {
+      if (!fs.existsSync(root.path)) continue;
+      const onDisk = readTagsFile(root);
+      // Rather keep this change out than drop everyone else's tags
+      if (!onDisk && fs.existsSync(fp)) {
+        throw new Error("Tags file can't be read, not overwriting it");
+      }
+      const merged = onDisk ?? {};
+      for (const filePath of own) {
+        const key = toRelativeKey(root, filePath);
+        const list = tags[filePath] ?? [];
+        if (list.length > 0) merged[key] = list;
+        else delete merged[key];
+      }
+      if (Object.keys(merged).length === 0 && !onDisk) continue;
+      const sorted = Object.fromEntries(
+        Object.entries(merged).sort((a, b) => a[0].localeCompare(b[0]))
+      );
+      fs.writeFileSync(tmp, JSON.stringify(sorted, null, 2), "utf8");
+      fs.renameSync(tmp, fp);
+    } catch (e) {
+      console.error("Failed to write tags file", root.path, e);
+      fs.rmSync(tmp, { force: true });
+    }
+  }
+}
+
+export function allTags(tags: TagMap): string[] {
+  return [...new Set(Object.values(tags).flat())].sort();
+}
@@ -0,0 +1,242 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { spawn } from "child_process";
+import { AudioMetadata, readAudioMetadata } from "./audio-metadata";
+import { openPcm } from "./pcm-decoder";
+import { findExecutable } from "./system-utils";
+import { WavWriter } from "./wav-writer";
+
+// After Effects imports WAV, AIFF, MP3 and AAC but fails on the other formats
+// the browser lists, and on sample rates outside what it handles. Such files
+// are converted to WAV in a cache folder, normally next to the AE project,
+// with a mapping file so later imports of the same file reuse the conversion.
+
+export const CONVERSION_FOLDER = "Converted Audio";
+const MAPPING_FILE = "conversions.json";
+const MAPPING_VERSION = 1;
+
+const MIN_AE_SAMPLE_RATE = 8000;
+const MAX_AE_SAMPLE_RATE = 96000;
+// Rate files outside AE's range are converted to
+const FALLBACK_SAMPLE_RATE = 48000;
+
+// Extensions AE is tried with when the header can't be read
+const AE_EXTENSIONS = [".wav", ".aif", ".aiff", ".mp3", ".m4a", ".aac"];
+
+export interface ConversionEntry {
+  output: string; // file name inside the cache folder
+  size: number; // of the original when it was converted
+  mtimeMs: number;
+  reason: string;
+  convertedAt: number;
+}
+
+interface ConversionMapping {
+  version: number;
+  files: Record<string, ConversionEntry>; // keyed by original path
+}
+
+export interface ImportableFile {
+  path: string;
+  // Why the original was converted; undefined when it is imported as is
+  reason?: string;
+}
+
+/**
+ * Why After Effects can't import a file with this header, or null when it can.
+ */
+export function conversionReason(
+  filePath: string,
+  metadata: AudioMetadata | null
+): string | null {
+  if (!metadata) {
+    return AE_EXTENSIONS.includes(path.extname(filePath).toLowerCase())
+      ? null
+      : "unrecognised format";
+  }
+  const { format, codec, sampleRate, bitDepth } = metadata;
+  switch (format) {
+    case "WAV":
+    case "AIFF":
+    case "AIFC":
+      if (codec !== "PCM" && codec !== "Float") return `${codec} ${format}`;
+      if (codec === "Float" && bitDepth === 64) return "64-bit float";
+      break;
+    case "MP3":
+    case "AAC":
+      break;
+    case "MP4":
+      if (codec !== "AAC") return `${codec ?? "unknown"} in MP4`;
+      break;
+    default:
+      return codec && codec !== format ? `${format} (${codec})` : format;
+  }
+  if (
+    sampleRate &&
+    (sampleRate < MIN_AE_SAMPLE_RATE || sampleRate > MAX_AE_SAMPLE_RATE)
+  ) {
+    return `${sampleRate / 1000} kHz sample rate`;
+  }
+  return null;
+}
+
+function mappingPath(cacheDir: string): string {
+  return path.join(cacheDir, MAPPING_FILE);
+}
+
+async function loadMapping(cacheDir: string): Promise<ConversionMapping> {
+  try {
+    const parsed = JSON.parse(
+      await fs.promises.readFile(mappingPath(cacheDir), "utf8")
+    ) as ConversionMapping;
+    if (parsed?.version === MAPPING_VERSION && parsed.files) return parsed;
+  } catch {
+    // missing or corrupt, start over
+  }
+  return { version: MAPPING_VERSION, files: {} };
+}
+
+async function saveMapping(cacheDir: string, mapping: ConversionMapping) {
+  const target = mappingPath(cacheDir);
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tmp, JSON.stringify(mapping, null, 2), "utf8");
+  await fs.promises.rename(tmp, target);
+}
+
+function run(command: string, args: string[]): Promise<boolean> {
+  return new Promise((resolve) => {
+    const proc = spawn(command, args, { stdio: "ignore" });
+    proc.on("close", (code) => resolve(code === 0));
+    proc.on("error", () => resolve(false));
+  });
+}
+
+/**
+ * Convert to WAV with afconvert or ffmpeg, which can also change the sample
+ * rate. Without either, files the built-in decoders can read are rewritten
+ * as they are.
+ */
+async function convertToWav(
+  source: string,
+  target: string,
+  metadata: AudioMetadata | null
+): Promise<boolean> {
+  const rate = metadata?.sampleRate;
+  const resample =
+    rate && (rate < MIN_AE_SAMPLE_RATE || rate > MAX_AE_SAMPLE_RATE)
+      ? FALLBACK_SAMPLE_RATE
+      : undefined;
+  const float = metadata?.codec === "Float";
+
+  const afconvert = findExecutable(["afconvert"]);
+  if (afconvert) {
+    const dataFormat = `${float ? "LEF32" : "LEI24"}${
+      resample ? `@${resample}` : ""
+    }`;
+    if (
+      await run(afconvert, ["-f", "WAVE", "-d", dataFormat, source, target])
+    ) {
+      return true;
+    }
+  }
+  const ffmpeg = findExecutable(["ffmpeg"]);
+  if (ffmpeg) {
+    const args = [
+      "-v",
+      "error",
+      "-y",
+      "-i",
+      source,
+      "-vn",
+      "-c:a",
+      float ? "pcm_f32le" : "pcm_s24le",
+      ...(resample ? ["-ar", String(resample)] : []),
+      "-f",
+      "wav",
+      target,
+    ];
+    if (await run(ffmpeg, args)) return true;
+  }
+  if (resample) return false;
+
+  const stream = await openPcm(source);
+  if (!stream) return false;
+  try {
+    const writer = await WavWriter.create(
+      target,
+      stream.sampleRate,
+      stream.channels,
+      float ? "float32" : "int24"
+    );
+    try {
+      for await (const planes of stream.chunks()) await writer.write(planes);
+    } finally {
+      await writer.close();
+    }
+    return true;
+  } finally {
+    await stream.close();
+  }
+}
+
+/**
+ * The file After Effects should import for `filePath`: the original when AE
+ * can read it, otherwise a WAV conversion in `cacheDir`. A conversion is
+ * reused while the original's size and modification time are unchanged.
+ * Throws when a needed conversion fails.
+ */
+export async function ensureImportable(
+  filePath: string,
+  cacheDir: string
+): Promise<ImportableFile> {
+  const metadata = await readAudioMetadata(filePath).catch(() => null);
+  const reason = conversionReason(filePath, metadata);
+  if (!reason) return { path: filePath };
+
+  const stat = await fs.promises.stat(filePath);
+  await fs.promises.mkdir(cacheDir, { recursive: true });
+  const mapping = await loadMapping(cacheDir);
+  const known = mapping.files[filePath];
+  if (
+    known &&
+    known.size === stat.size &&
+    known.mtimeMs === stat.mtimeMs &&
+    fs.existsSync(path.join(cacheDir, known.output))
+  ) {
+    return { path: path.join(cacheDir, known.output), reason: known.reason };
+  }
+
+  // Same-named files from different folders get different outputs
+  const stem = path.basename(filePath, path.extname(filePath));
+  const hash = crypto
+    .createHash("sha1")
+    .update(filePath)
+    .digest("hex")
+    .slice(0, 6);
+  const output = `${stem} ${hash}.wav`;
+  const target = path.join(cacheDir, output);
+  const partial = `${target}.${process.pid}.part`;
+  try {
+    if (!(await convertToWav(filePath, partial, metadata))) {
+      throw new Error(
+        `Can't convert ${path.basename(filePath)} (${reason}); install ffmpeg`
+      );
+    }
+    await fs.promises.rename(partial, target);
+  } finally {
+    await fs.promises.rm(partial, { force: true });
+  }
+
+  // Re-read in case another import updated the mapping meanwhile
+  const latest = await loadMapping(cacheDir);
+  latest.files[filePath] = {
+    output,
+    size: stat.size,
+    mtimeMs: stat.mtimeMs,
+    reason,
+    convertedAt: Date.now(),
+  };
+  await saveMapping(cacheDir, latest);
+  return { path: target, reason };
+}
@@ -0,0 +1,310 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { openPcmOrThrow } from "./pcm-decoder";
+import { BiquadState, lowPass } from "./dsp";
+import { WAV_HEADER_BYTES, WavWriter } from "./wav-writer";
+
+// Playback treatments auditioned in the browser and carried through to After
+// Effects: a speed change, with or without keeping the pitch, and reversing.
+// A plain speed change maps onto AE's layer time stretch, which resamples the
+// audio the same way. Keeping the pitch or reversing has no AE equivalent, so
+// those are rendered offline to a WAV copy that is imported instead.
+
+export interface Treatment {
+  rate: number; // playback speed, 1 = as recorded
+  preservePitch: boolean;
+  reverse: boolean;
+}
+
+export const NO_TREATMENT: Treatment = {
+  rate: 1,
+  preservePitch: false,
+  reverse: false,
+};
+
+export const PLAYBACK_RATES = [0.5, 0.67, 0.75, 0.9, 1, 1.1, 1.25, 1.5, 2];
+export const MIN_RATE = 0.25;
+export const MAX_RATE = 4;
+
+// Rendering holds the whole file in memory
+const MAX_RENDER_SEC = 600;
+
+// Time stretching: overlapping 40 ms grains, each shifted by up to 10 ms to
+// line up with the waveform of the previous one (WSOLA)
+const GRAIN_SEC = 0.04;
+const SEEK_SEC = 0.01;
+const SEEK_STEP = 2;
+const MATCH_DECIMATION = 4;
+
+export function isTreated(t: Treatment): boolean {
+  return t.rate !== 1 || t.reverse;
+}
+
+/**
+ * Whether AE can't reproduce the treatment on the original file and needs a
+ * rendered copy.
+ */
+export function needsRenderedCopy(t: Treatment): boolean {
+  return t.reverse || (t.rate !== 1 && t.preservePitch);
+}
+
+/**
+ * The AE layer stretch, in percent, that plays a file at `rate`.
+ */
+export function layerStretch(t: Treatment): number {
+  return Math.round((100 / t.rate) * 1000) / 1000;
+}
+
+export function describeRate(rate: number): string {
+  return `${rate}×`;
+}
+
+export function describeTreatment(t: Treatment): string {
+  return [
+    t.rate !== 1 ? describeRate(t.rate) : "",
+    t.rate !== 1 && t.preservePitch ? "same pitch" : "",
+    t.reverse ? "reversed" : "",
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+export function clampRate(rate: number): number {
+  return Math.min(MAX_RATE, Math.max(MIN_RATE, rate));
+}
+
+/**
+ * Where the rendered copy of a file lives in `cacheDir`. The name changes with
+ * the file's size and modification time, so edits are rendered again.
+ */
+export function treatedCopyPath(
+  filePath: string,
+  t: Treatment,
+  cacheDir: string
+): string {
+  let stat: fs.Stats | null = null;
+  try {
+    stat = fs.statSync(filePath);
+  } catch {
+    // rendered copies of missing files are never found
+  }
+  const key = [
+    filePath,
+    stat?.size,
+    stat?.mtimeMs,
+    t.rate,
+    t.preservePitch,
+    t.reverse,
+  ].join("|");
+  const hash = crypto.createHash("sha1").update(key).digest("hex").slice(0, 8);
+  const stem = path.basename(filePath, path.extname(filePath));
+  return path.join(cacheDir, `${stem} (${describeTreatment(t)}) ${hash}.wav`);
+}
+
+// Null when the file can't be decoded or is too long; throws when decoding
+// failed in a way that may not happen next time
+async function decodeAll(
+  filePath: string
+): Promise<{ planes: Float32Array[]; sampleRate: number } | null> {
+  const stream = await openPcmOrThrow(filePath);
+  if (!stream) return null;
+  try {
+    const maxFrames = Math.floor(stream.sampleRate * MAX_RENDER_SEC);
+    const chunks: Float32Array[][] = [];
+    let length = 0;
+    for await (const planes of stream.chunks()) {
+      chunks.push(planes);
+      length += planes[0].length;
+      if (length > maxFrames) return null;
+    }
+    if (length === 0) {
+      throw new Error(`No audio decoded from ${path.basename(filePath)}`);
+    }
+    const planes = Array.from(
+      { length: stream.channels },
+      () => new Float32Array(length)
+    );
+    let offset = 0;
+    for (const chunk of chunks) {
+      planes.forEach((plane, c) => plane.set(chunk[c], offset));
+      offset += chunk[0].length;
+    }
+    return { planes, sampleRate: stream.sampleRate };
+  } finally {
+    await stream.close();
+  }
+}
+
+/**
+ * Play `plane` at `rate` by resampling, which shifts the pitch with the speed.
+ * Speeding up is low-passed first so high frequencies don't alias.
+ */
+function varispeed(
+  plane: Float32Array,
+  rate: number,
+  sampleRate: number
+): Float32Array {
+  let source = plane;
+  if (rate > 1) {
+    const cutoff = (0.45 * sampleRate) / rate;
+    const stages = [lowPass(cutoff, sampleRate), lowPass(cutoff, sampleRate)];
+    source = plane.slice();
+    for (const stage of stages) {
+      const filter = new BiquadState(stage);
+      for (let i = 0; i < source.length; i++) {
+        source[i] = filter.process(source[i]);
+      }
+    }
+  }
+  const out = new Float32Array(Math.floor(source.length / rate));
+  const at = (i: number) => source[Math.min(source.length - 1, Math.max(0, i))];
+  for (let i = 0; i < out.length; i++) {
+    const position = i * rate;
+    const k = Math.floor(position);
+    const f = position - k;
+    // Catmull-Rom interpolation between the two nearest samples
+    const p0 = at(k - 1);
+    const p1 = at(k);
+    const p2 = at(k + 1);
+    const p3 = at(k + 2);
+    out[i] =
+      p1 +
+      0.5 *
+        f *
+        (p2 -
+          p0 +
+          f * (2 * p0 - 5 * p1 + 4 * p2 - p3 + f * (3 * (p1 - p2) + p3 - p0)));
+  }
+  return out;
+}
+
+/**
+ * Change the speed of all channels by `rate` without changing the pitch. The
+ * grain positions are chosen on the mixed signal and applied to every channel
+ * so the stereo image holds together.
+ */
+function timeStretch(
+  planes: Float32Array[],
+  rate: number,
+  sampleRate: number
+): Float32Array[] {
+  const grain = 2 * Math.round((GRAIN_SEC * sampleRate) / 2);
+  const hopOut = grain / 2;
+  const hopIn = hopOut * rate;
+  const seek = Math.round(SEEK_SEC * sampleRate);
+  const length = planes[0].length;
+  // Padding by half a grain plus the seek range keeps every grain in bounds
+  const pad = hopOut + seek;
+  const padded = planes.map((plane) => {
+    const p = new Float32Array(length + 2 * pad + grain);
+    p.set(plane, pad);
+    return p;
+  });
+  const mix = new Float32Array(padded[0].length);
+  for (const p of padded) {
+    for (let i = 0; i < p.length; i++) mix[i] += p[i] / padded.length;
+  }
+  const window = new Float32Array(grain);
+  for (let i = 0; i < grain; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / grain);
+  }
+
+  const outLength = Math.round(length / rate);
+  const out = planes.map(() => new Float32Array(outLength + grain));
+  const maxStart = mix.length - grain;
+  let previous = pad - hopOut;
+  for (let k = 0; k * hopOut < outLength + hopOut; k++) {
+    const nominal = Math.round(pad - hopOut + k * hopIn);
+    let start = Math.min(maxStart, Math.max(0, nominal));
+    if (k > 0) {
+      // The grain whose waveform best continues the previous one
+      const target = Math.min(maxStart, previous + hopOut);
+      let best = -Infinity;
+      const score = (candidate: number) => {
+        let sum = 0;
+        for (let i = 0; i < grain; i += MATCH_DECIMATION) {
+          sum += mix[candidate + i] * mix[target + i];
+        }
+        return sum;
+      };
+      const from = Math.max(0, nominal - seek);
+      const to = Math.min(maxStart, nominal + seek);
+      for (let candidate = from; candidate <= to; candidate += SEEK_STEP) {
+        const s = score(candidate);
+        if (s > best) {
+          best = s;
+          start = candidate;
+        }
+      }
+      for (const candidate of [start - 1, start + 1]) {
+        if (candidate < from || candidate > to) continue;
+        const s = score(candidate);
+        if (s > best) {
+          best = s;
+          start = candidate;
+        }
+      }
+    }
+    previous = start;
+    const at = k * hopOut - hopOut;
+    for (let c = 0; c < planes.length; c++) {
+      const source = padded[c];
+      const target = out[c];
+      for (let i = 0; i < grain; i++) {
+        const o = at + i;
+        if (o >= 0 && o < target.length) {
+          target[o] += source[start + i] * window[i];
+        }
+      }
+    }
+  }
+  return out.map((plane) => plane.subarray(0, outLength));
+}
+
+/**
+ * Render `filePath` with the treatment to a float WAV in `cacheDir`, reusing
+ * an earlier render. Returns the copy's path, or null when the file can't be
+ * decoded or is too long to render. Throws when decoding failed, without
+ * writing anything.
+ */
+export async function renderTreatedCopy(
+  filePath: string,
+  t: Treatment,
+  cacheDir: string
+): Promise<string | null> {
+  const target = treatedCopyPath(filePath, t, cacheDir);
+  // A copy with nothing after the header is left from a failed decode
+  const existing = await fs.promises.stat(target).catch(() => null);
+  if (existing && existing.size > WAV_HEADER_BYTES) return target;
+  const decoded = await decodeAll(filePath);
+  if (!decoded) return null;
+  const { sampleRate } = decoded;
+  let planes = decoded.planes;
+  if (t.rate !== 1) {
+    planes = t.preservePitch
+      ? timeStretch(planes, t.rate, sampleRate)
+      : planes.map((plane) => varispeed(plane, t.rate, sampleRate));
+  }
+  if (t.reverse) planes = planes.map((plane) => plane.slice().reverse());
+
+  await fs.promises.mkdir(cacheDir, { recursive: true });
+  // Written under a temporary name so a half-written copy is never played
+  const partial = `${target}.${process.pid}.part`;
+  try {
+    const writer = await WavWriter.create(partial, sampleRate, planes.length);
+    try {
+      const chunk = 65536;
+      for (let i = 0; i < planes[0].length; i += chunk) {
+        await writer.write(planes.map((plane) => plane.subarray(i, i + chunk)));
+      }
+    } finally {
+      await writer.close();
+    }
+    await fs.promises.rename(partial, target);
+  } catch (e) {
+    await fs.promises.rm(partial, { force: true });
+    throw e;
+  }
+  return target;
+}
@@ -0,0 +1,119 @@
+import fs from "fs";
+
+// Writes planar Float32 audio, as handed out by the PCM decoders, to a WAV
+// file chunk by chunk. The header sizes are filled in on close.
+
+export type WavSampleFormat = "int16" | "int24" | "float32";
+
+export const WAV_HEADER_BYTES = 44;
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+function bytesPerSample(format: WavSampleFormat): number {
+  return format === "int16" ? 2 : format === "int24" ? 3 : 4;
+}
+
+function header(
+  sampleRate: number,
+  channels: number,
+  format: WavSampleFormat,
+  dataBytes: number
+): Buffer {
+  const bytes = bytesPerSample(format);
+  const buf = Buffer.alloc(WAV_HEADER_BYTES);
+  buf.write("RIFF", 0, "latin1");
+  buf.writeUInt32LE(WAV_HEADER_BYTES - 8 + dataBytes + (dataBytes % 2), 4);
+  buf.write("WAVE", 8, "latin1");
+  buf.write("fmt ", 12, "latin1");
+  buf.writeUInt32LE(16, 16);
+  buf.writeUInt16LE(
+    format === "float32" ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM,
+    20
+  );
+  buf.writeUInt16LE(channels, 22);
+  buf.writeUInt32LE(sampleRate, 24);
+  buf.writeUInt32LE(sampleRate * channels * bytes, 28);
+  buf.writeUInt16LE(channels * bytes, 32);
+  buf.writeUInt16LE(bytes * 8, 34);
+  buf.write("data", 36, "latin1");
+  buf.writeUInt32LE(dataBytes, 40);
+  return buf;
+}
+
+export class WavWriter {
+  private dataBytes = 0;
+
+  private constructor(
+    private readonly handle: fs.promises.FileHandle,
+    readonly sampleRate: number,
+    readonly channels: number,
+    readonly format: WavSampleFormat
+  ) {}
+
+  static async create(
+    filePath: string,
+    sampleRate: number,
+    channels: number,
+    format: WavSampleFormat = "float32"
+  ): Promise<WavWriter> {
+    const handle = await fs.promises.open(filePath, "w");
+    await handle.write(header(sampleRate, channels, format, 0), 0);
+    return new WavWriter(handle, sampleRate, channels, format);
+  }
+
+  /**
+   * Append one chunk; `planes` holds one array per channel. Integer formats
+   * are clipped to full scale.
+   */
+  async write(planes: Float32Array[]) {
+    const frames = planes[0]?.length ?? 0;
+    const bytes = bytesPerSample(this.format);
+    const buf = Buffer.alloc(frames * this.channels * bytes);
+    let offset = 0;
+    for (let i = 0; i < frames; i++) {
+      for (let c = 0; c < this.channels; c++) {
+        const x = (planes[c] ?? planes[0])[i];
+        if (this.format === "float32") {
+          buf.writeFloatLE(x, offset);
+        } else {
+          const clipped = Math.max(-1, Math.min(1, x));
+          if (this.format === "int16") {
+            buf.writeInt16LE(Math.round(clipped * 32767), offset);
+          } else {
+            buf.writeIntLE(Math.round(clipped * 8388607), offset, 3);
+          }
+        }
+        offset += bytes;
+      }
+    }
+    await this.handle.write(
+      buf,
+      0,
+      buf.length,
+      WAV_HEADER_BYTES + this.dataBytes
+    );
+    this.dataBytes += buf.length;
+  }
+
+  async close() {
+    try {
+      // Chunks are word aligned; the pad byte is not part of the data size
+      if (this.dataBytes % 2 === 1) {
+        await this.handle.write(
+          Buffer.alloc(1),
+          0,
+          1,
+          WAV_HEADER_BYTES + this.dataBytes
+        );
+      }
+      await this.handle.write(
+        header(this.sampleRate, this.channels, this.format, this.dataBytes),
+        0,
+        WAV_HEADER_BYTES,
+        0
+      );
+    } finally {
+      await this.handle.close();
+    }
+  }
+}
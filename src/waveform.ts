@@ -0,0 +1,157 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { environment } from "@raycast/api";
+import { openPcmOrThrow } from "./pcm-decoder";
+
+// Peak/RMS waveform thumbnails rendered to SVG and cached on disk by path+mtime.
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const FALLBACK_BLOCK_FRAMES = 512;
+
+interface Bucket {
+  min: number;
+  max: number;
+  sumSq: number;
+  count: number;
+}
+
+export interface WaveformColors {
+  peak: string;
+  rms: string;
+}
+
+function waveformCacheDir(): string {
+  return path.join(environment.supportPath, "waveforms");
+}
+
+function cacheKey(
+  filePath: string,
+  stat: fs.Stats,
+  colors: WaveformColors
+): string {
+  return crypto
+    .createHash("sha1")
+    .update(`${filePath}\0${stat.mtimeMs}\0${stat.size}`)
+    .update(`\0${colors.peak}\0${colors.rms}`)
+    .digest("hex");
+}
+
+/**
+ * Return the path of a cached waveform SVG for the file, rendering it first if
+ * needed. Returns null when the file can't be decoded, and throws when that
+ * may change (see openPcmOrThrow).
+ */
+export async function getWaveformImage(
+  filePath: string,
+  colors: WaveformColors
+): Promise<string | null> {
+  const stat = await fs.promises.stat(filePath);
+  const dir = waveformCacheDir();
+  const target = path.join(dir, `${cacheKey(filePath, stat, colors)}.svg`);
+  try {
+    await fs.promises.access(target);
+    return target;
+  } catch {
+    // not cached yet
+  }
+
+  const buckets = await computeBuckets(filePath, WIDTH);
+  if (!buckets) return null;
+  await fs.promises.mkdir(dir, { recursive: true });
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tmp, renderSvg(buckets, colors), "utf8");
+  await fs.promises.rename(tmp, target);
+  return target;
+}
+
+async function computeBuckets(
+  filePath: string,
+  width: number
+): Promise<Bucket[] | null> {
+  const stream = await openPcmOrThrow(filePath);
+  if (!stream) return null;
+  try {
+    const blockFrames = stream.frames
+      ? Math.max(1, Math.floor(stream.frames / width))
+      : FALLBACK_BLOCK_FRAMES;
+    const blocks: Bucket[] = [];
+    let current: Bucket = { min: 0, max: 0, sumSq: 0, count: 0 };
+
+    for await (const planes of stream.chunks()) {
+      const frames = planes[0].length;
+      for (let i = 0; i < frames; i++) {
+        // Downmix to mono so stereo files draw one shape
+        let v = 0;
+        for (let c = 0; c < planes.length; c++) v += planes[c][i];
+        v /= planes.length;
+        if (v < current.min) current.min = v;
+        if (v > current.max) current.max = v;
+        current.sumSq += v * v;
+        current.count++;
+        if (current.count === blockFrames) {
+          blocks.push(current);
+          current = { min: 0, max: 0, sumSq: 0, count: 0 };
+        }
+      }
+    }
+    if (current.count > 0) blocks.push(current);
+    if (blocks.length === 0) return null;
+    return resampleBuckets(blocks, width);
+  } finally {
+    await stream.close();
+  }
+}
+
+function resampleBuckets(blocks: Bucket[], width: number): Bucket[] {
+  if (blocks.length <= width) return blocks;
+  const out: Bucket[] = [];
+  for (let x = 0; x < width; x++) {
+    const from = Math.floor((x * blocks.length) / width);
+    const to = Math.max(
+      from + 1,
+      Math.floor(((x + 1) * blocks.length) / width)
+    );
+    const merged: Bucket = { min: 0, max: 0, sumSq: 0, count: 0 };
+    for (let i = from; i < to; i++) {
+      const b = blocks[i];
+      merged.min = Math.min(merged.min, b.min);
+      merged.max = Math.max(merged.max, b.max);
+      merged.sumSq += b.sumSq;
+      merged.count += b.count;
+    }
+    out.push(merged);
+  }
+  return out;
+}
+
+function renderSvg(buckets: Bucket[], colors: WaveformColors): string {
+  const mid = HEIGHT / 2;
+  const step = WIDTH / buckets.length;
+  const barWidth = Math.max(1, step * 0.8).toFixed(2);
+  const peaks: string[] = [];
+  const rms: string[] = [];
+  buckets.forEach((b, i) => {
+    const x = (i * step).toFixed(2);
+    const top = mid - Math.min(1, b.max) * mid;
+    const bottom = mid - Math.max(-1, b.min) * mid;
+    peaks.push(
+      `M${x} ${top.toFixed(2)}V${Math.max(bottom, top + 1).toFixed(2)}`
+    );
+    const r = Math.min(1, Math.sqrt(b.sumSq / Math.max(1, b.count))) * mid;
+    rms.push(
+      `M${x} ${(mid - r).toFixed(2)}V${(mid + Math.max(r, 0.5)).toFixed(2)}`
+    );
+  });
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">`,
+    `<path d="${peaks.join("")}" stroke="${
+      colors.peak
+    }" stroke-width="${barWidth}" fill="none"/>`,
+    `<path d="${rms.join("")}" stroke="${
+      colors.rms
+    }" stroke-width="${barWidth}" fill="none"/>`,
+    `</svg>`,
+  ].join("\n");
+}